@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { assignPositions, teamworkScore } from './ai-assignment';
+import { generateAiPaths } from './ai-planner';
+import { createUnit } from './units';
+import { AI_CROWD_RADIUS } from './constants';
+import { Vec2 } from './types';
+
+function option(pos: Vec2, score: number) {
+  return { pos, score, waypoints: [pos] };
+}
+
+describe('assignPositions', () => {
+  it('sends the second unit elsewhere instead of stacking on the shared best spot', () => {
+    const enemy = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 600, y: 600 });
+    const hill = { x: 600, y: 500 };
+    const left = { x: 520, y: 540 };
+
+    const [a, b] = assignPositions([
+      [option(hill, 30), option(left, 24)],
+      [option(hill, 30), option(left, 24)],
+    ], [enemy]);
+
+    expect(a!.pos).toEqual(hill);
+    expect(b!.pos).toEqual(left);
+  });
+
+  it('leaves units without options unassigned', () => {
+    expect(assignPositions([[], [option({ x: 1, y: 1 }, 0)]], [])).toEqual([null, option({ x: 1, y: 1 }, 0)]);
+  });
+});
+
+describe('teamworkScore', () => {
+  it('penalises standing in a teammate\'s line of fire', () => {
+    const enemy = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 600, y: 600 });
+    const shooter = { x: 600, y: 300 };
+
+    const inLane = teamworkScore({ x: 600, y: 450 }, [shooter], [enemy]);
+    const offLane = teamworkScore({ x: 450, y: 600 }, [shooter], [enemy]);
+
+    expect(inLane).toBeLessThan(offLane);
+  });
+});
+
+describe('generateAiPaths', () => {
+  it('spreads a squad across positions on a symmetric map', () => {
+    const enemy = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 600, y: 600 });
+    const squad = [
+      createUnit('red_soldier_0', 'soldier', 'red', { x: 560, y: 150 }),
+      createUnit('red_soldier_1', 'soldier', 'red', { x: 600, y: 150 }),
+      createUnit('red_soldier_2', 'soldier', 'red', { x: 640, y: 150 }),
+    ];
+
+    generateAiPaths([...squad, enemy], 'red', [], []);
+
+    const ends = squad.map(u => u.waypoints[u.waypoints.length - 1]);
+    for (let i = 0; i < ends.length; i++) {
+      for (let j = i + 1; j < ends.length; j++) {
+        expect(Math.hypot(ends[i].x - ends[j].x, ends[i].y - ends[j].y)).toBeGreaterThanOrEqual(AI_CROWD_RADIUS);
+      }
+    }
+    // Coming at the enemy from more than one side
+    const bearings = ends.map(p => Math.atan2(p.y - enemy.pos.y, p.x - enemy.pos.x));
+    expect(Math.max(...bearings) - Math.min(...bearings)).toBeGreaterThan(Math.PI / 4);
+  });
+});
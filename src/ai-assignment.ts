@@ -0,0 +1,87 @@
+import { Unit, Vec2, Waypoint } from './types';
+import { AI_CROWD_RADIUS, AI_CROWD_PENALTY, AI_FIRE_LANE_WIDTH, AI_CROSSFIRE_PENALTY, AI_SPREAD_BONUS } from './constants';
+
+/** A reachable spot one unit could take this round, with its own score and the path there. */
+export interface PositionOption {
+  pos: Vec2;
+  score: number;
+  waypoints: Waypoint[];
+}
+
+/**
+ * Match units to positions as a team. Greedily takes the unit/position pair with the best score
+ * after teamwork terms against the teammates already placed, so squads spread out instead of
+ * stacking on one spot. Returns the chosen option per unit, null where a unit had none.
+ */
+export function assignPositions(options: PositionOption[][], enemies: Unit[]): (PositionOption | null)[] {
+  const chosen: (PositionOption | null)[] = options.map(() => null);
+  const taken: Vec2[] = [];
+  const open = new Set(options.map((_, i) => i).filter(i => options[i].length > 0));
+
+  while (open.size > 0) {
+    let best: { unit: number; option: PositionOption; value: number } | null = null;
+    for (const unit of open) {
+      for (const option of options[unit]) {
+        const value = option.score + teamworkScore(option.pos, taken, enemies);
+        if (!best || value > best.value) best = { unit, option, value };
+      }
+    }
+    chosen[best!.unit] = best!.option;
+    taken.push(best!.option.pos);
+    open.delete(best!.unit);
+  }
+  return chosen;
+}
+
+/** Score adjustment for standing at `pos` when teammates are already placed at `taken`. */
+export function teamworkScore(pos: Vec2, taken: Vec2[], enemies: Unit[]): number {
+  if (taken.length === 0) return 0;
+  let score = 0;
+
+  // Crowding fades out linearly by AI_CROWD_RADIUS
+  for (const t of taken) {
+    const d = Math.hypot(t.x - pos.x, t.y - pos.y);
+    if (d < AI_CROWD_RADIUS) score -= AI_CROWD_PENALTY * (1 - d / AI_CROWD_RADIUS);
+  }
+
+  const target = nearestEnemy(pos, enemies);
+  if (!target) return score;
+
+  // Crossfire overlap: a teammate in our firing lane, or us in theirs
+  let spread = Math.PI;
+  const bearing = Math.atan2(pos.y - target.pos.y, pos.x - target.pos.x);
+  for (const t of taken) {
+    const theirTarget = nearestEnemy(t, enemies)!;
+    if (distToSegment(t, pos, target.pos) < AI_FIRE_LANE_WIDTH || distToSegment(pos, t, theirTarget.pos) < AI_FIRE_LANE_WIDTH) {
+      score -= AI_CROSSFIRE_PENALTY;
+    }
+    if (theirTarget !== target) continue;
+    const diff = Math.abs(Math.atan2(t.y - target.pos.y, t.x - target.pos.x) - bearing);
+    spread = Math.min(spread, Math.min(diff, 2 * Math.PI - diff));
+  }
+
+  // Different angles of approach on the same enemy, full bonus from 90° apart
+  score += AI_SPREAD_BONUS * Math.min(spread / (Math.PI / 2), 1);
+  return score;
+}
+
+function nearestEnemy(pos: Vec2, enemies: Unit[]): Unit | null {
+  let nearest: Unit | null = null;
+  let nearestDist = Infinity;
+  for (const e of enemies) {
+    const d = Math.hypot(e.pos.x - pos.x, e.pos.y - pos.y);
+    if (d < nearestDist) {
+      nearest = e;
+      nearestDist = d;
+    }
+  }
+  return nearest;
+}
+
+function distToSegment(p: Vec2, a: Vec2, b: Vec2): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
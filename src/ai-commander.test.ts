@@ -4,8 +4,10 @@ vi.mock('@mlc-ai/web-llm', () => ({
   CreateMLCEngine: vi.fn(),
 }));
 
-import { serializeState, parseAiResponse, fallbackOrders } from './ai-commander';
+import { serializeState, parseAiResponse, fallbackOrders, applyAiOrders, repairJson, validateOrders, AiCommander } from './ai-commander';
+import { ScriptedBackend, CommanderBackend } from './commander-backend';
 import { createUnit } from './units';
+import { FogOfWar } from './fog';
 import { Obstacle } from './types';
 
 describe('serializeState', () => {
@@ -38,6 +40,25 @@ describe('serializeState', () => {
 
     expect(parsed.enemy_units).toHaveLength(0);
   });
+
+  it('only reveals enemies the team has seen when fogged', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const seen = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 500 });
+    const hidden = createUnit('red_soldier_1', 'soldier', 'red', { x: 1000, y: 100 });
+    const units = [blue, seen, hidden];
+    const fog = new FogOfWar('blue');
+    fog.update(units, []);
+    // Both move on — the last sighting is now out of view too
+    blue.pos = { x: 100, y: 100 };
+    seen.pos = { x: 1100, y: 600 };
+    fog.update(units, []);
+
+    const parsed = JSON.parse(serializeState(units, [], 'blue', fog));
+
+    expect(parsed.enemy_units).toEqual([
+      { id: 'red_soldier_0', type: 'soldier', pos: [100, 500], hp: 60, max_hp: 60, last_seen: true },
+    ]);
+  });
 });
 
 describe('parseAiResponse', () => {
@@ -76,6 +97,107 @@ describe('parseAiResponse', () => {
   });
 });
 
+describe('repairJson', () => {
+  it('closes a reply that was cut off mid-order', () => {
+    const raw = '{"orders":[{"id":"a","move_to":[1,2],"attack":null},{"id":"b","move_to":[3,';
+
+    expect(JSON.parse(repairJson(raw)!)).toEqual({ orders: [{ id: 'a', move_to: [1, 2], attack: null }] });
+  });
+
+  it('drops chatter around the JSON', () => {
+    const raw = 'Sure! Here are the orders: {"orders":[{"id":"a","move_to":[1,2]}]} Good luck.';
+
+    expect(parseAiResponse(raw)!.orders).toEqual([{ id: 'a', move_to: [1, 2], attack: null }]);
+  });
+});
+
+describe('validateOrders', () => {
+  it('clamps, nudges out of blocks, drops unknown units and clears bad targets', () => {
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+    const red2 = createUnit('red_soldier_1', 'soldier', 'red', { x: 300, y: 100 });
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    blue.alive = false;
+    const block: Obstacle = { x: 200, y: 200, w: 100, h: 100 };
+
+    const { response, issues } = validateOrders({
+      orders: [
+        { id: 'red_soldier_0', move_to: [-40, 5000], attack: 'blue_soldier_0' },
+        { id: 'red_soldier_1', move_to: [210, 250], attack: null },
+        { id: 'red_ghost', move_to: [10, 10], attack: null },
+        { id: 'red_soldier_1', move_to: [0, 0], attack: null },
+      ],
+    }, [red, red2, blue], 'red', [block]);
+
+    expect(response.orders).toEqual([
+      { id: 'red_soldier_0', move_to: [red.radius, 800 - red.radius], attack: null },
+      { id: 'red_soldier_1', move_to: [200 - red2.radius - 1, 250], attack: null },
+    ]);
+    expect(issues.map(i => i.kind)).toEqual(['off-map', 'bad-target', 'in-block', 'unknown-unit', 'duplicate-order']);
+  });
+});
+
+describe('AiCommander.getOrders', () => {
+  it('retries once with the errors listed, then backfills', async () => {
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+    const red2 = createUnit('red_soldier_1', 'soldier', 'red', { x: 300, y: 100 });
+    const prompts: string[] = [];
+    const replies = [
+      '{"orders":[{"id":"red_nobody","move_to":[100,200]}]}',
+      '{"orders":[{"id":"red_soldier_0","move_to":[100,200]}]}',
+    ];
+    const commander = new AiCommander('red', 'hold', new ScriptedBackend(messages => {
+      prompts.push(messages[messages.length - 1].content);
+      return replies[prompts.length - 1];
+    }));
+    await commander.init();
+
+    const response = await commander.getOrders([red, red2], []);
+
+    expect(prompts[1]).toContain('No live red unit "red_nobody"');
+    expect(response.orders.map(o => o.id)).toEqual(['red_soldier_0', 'red_soldier_1']);
+    expect(commander.lastDiagnostics!.attempts).toHaveLength(2);
+    expect(commander.lastDiagnostics!.backfilled).toEqual(['red_soldier_1']);
+  });
+
+  it('keeps the first attempt\'s orders when the retry call throws', async () => {
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+    const block: Obstacle = { x: 150, y: 250, w: 100, h: 100 };
+    let calls = 0;
+    const commander = new AiCommander('red', 'hold', new ScriptedBackend(() => {
+      if (++calls > 1) throw new Error('backend down');
+      return '{"orders":[{"id":"red_soldier_0","move_to":[200,300]}]}';
+    }));
+    await commander.init();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await commander.getOrders([red], [], undefined, [block]);
+    warn.mockRestore();
+
+    expect(calls).toBe(2);
+    expect(response.orders).toEqual([{ id: 'red_soldier_0', move_to: [150 - red.radius - 1, 300], attack: null }]);
+  });
+
+  it('gives up when the time budget runs out', async () => {
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+    let signal: AbortSignal | undefined;
+    const backend: CommanderBackend = {
+      name: 'stalled',
+      init: async () => true,
+      complete: (_messages, _maxTokens, s) => {
+        signal = s;
+        return new Promise(() => {});
+      },
+    };
+    const commander = new AiCommander('red', 'hold', backend, 20);
+    await commander.init();
+
+    expect(await commander.getOrders([red], [])).toEqual({ orders: [] });
+    expect(commander.lastDiagnostics!.timedOut).toBe(true);
+    // The abandoned request is cancelled rather than left running into the next round
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
 describe('fallbackOrders', () => {
   it('orders all units toward the center of the map', () => {
     const units = [
@@ -91,3 +213,55 @@ describe('fallbackOrders', () => {
     });
   });
 });
+
+describe('applyAiOrders', () => {
+  it('sets waypoints and focus targets from the orders', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 600 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+
+    applyAiOrders([blue, red], 'blue', { orders: [{ id: blue.id, move_to: [150, 400], attack: red.id }] });
+
+    expect(blue.waypoints).toEqual([{ x: 150, y: 400 }]);
+    expect(blue.attackTargetId).toBe(red.id);
+  });
+
+  it('drops facing and hold orders left over from an earlier plan', () => {
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+    red.facing = Math.PI;
+    red.holdTime = 2;
+    red.awaitingGo = true;
+
+    applyAiOrders([red], 'red', { orders: [{ id: red.id, move_to: [150, 300], attack: null }] });
+
+    expect(red.facing).toBeUndefined();
+    expect(red.holdTime).toBeUndefined();
+    expect(red.awaitingGo).toBe(false);
+  });
+
+  it('ignores attack ids that are not live enemies and orders for the other team', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 600 });
+    const ally = createUnit('blue_soldier_1', 'soldier', 'blue', { x: 200, y: 600 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+
+    applyAiOrders([blue, ally, red], 'blue', {
+      orders: [
+        { id: blue.id, move_to: [-50, 5000], attack: ally.id },
+        { id: red.id, move_to: [0, 0], attack: blue.id },
+      ],
+    });
+
+    expect(blue.waypoints).toEqual([{ x: 0, y: 800 }]);
+    expect(blue.attackTargetId).toBeNull();
+    expect(red.waypoints).toEqual([]);
+  });
+
+  it('routes the move around blocks in the way', () => {
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 400, y: 100 });
+    const wall: Obstacle = { x: 350, y: 250, w: 100, h: 40 };
+
+    applyAiOrders([red], 'red', { orders: [{ id: red.id, move_to: [400, 500], attack: null }] }, [wall]);
+
+    expect(red.waypoints.length).toBeGreaterThan(1);
+    expect(red.waypoints[red.waypoints.length - 1]).toEqual({ x: 400, y: 500 });
+  });
+});
@@ -1,52 +1,19 @@
-import { CreateMLCEngine, MLCEngine } from '@mlc-ai/web-llm';
-import { Unit, Team, Obstacle, AiResponse, AiUnitOrder } from './types';
-import { MAP_WIDTH, MAP_HEIGHT } from './constants';
-
-const MODEL_ID = 'SmolLM2-360M-Instruct-q4f32_1-MLC';
+import { Unit, Team, Obstacle, AiResponse, AiUnitOrder, AiOrderIssue, AiDiagnostics } from './types';
+import { MAP_WIDTH, MAP_HEIGHT, AI_TIME_BUDGET_MS } from './constants';
+import { FogOfWar } from './fog';
+import { detourWaypoints, nudgeOutOfBlocks } from './units';
+import { ChatMessage, CommanderBackend, WebLlmBackend } from './commander-backend';
 
 const SYSTEM_PROMPT = `RTS game. Map: ${MAP_WIDTH}x${MAP_HEIGHT}px. You control {side} team.
 Units have id, pos [x,y], hp. You MUST give an order for EVERY alive unit. Strategy: {userPrompt}
 Reply ONLY with JSON: {"orders":[{"id":"unit_id","move_to":[x,y],"attack":"enemy_id_or_null"}]}`;
 
-// --- Shared WebLLM engine singleton ---
-
-let sharedEngine: MLCEngine | null = null;
-let engineReady = false;
-let engineLoading = false;
-let onProgress: ((progress: { text: string; progress: number }) => void) | null = null;
-
-export function setProgressCallback(cb: (progress: { text: string; progress: number }) => void): void {
-  onProgress = cb;
-}
-
-async function getEngine(): Promise<MLCEngine | null> {
-  if (engineReady && sharedEngine) return sharedEngine;
-  if (engineLoading) return null; // loading in progress, caller should wait
-
-  engineLoading = true;
-  try {
-    sharedEngine = await CreateMLCEngine(MODEL_ID, {
-      initProgressCallback: (progress) => {
-        onProgress?.({ text: progress.text, progress: progress.progress });
-      },
-    });
-    engineReady = true;
-    return sharedEngine;
-  } catch (err) {
-    console.warn('WebLLM init failed:', err);
-    sharedEngine = null;
-    return null;
-  } finally {
-    engineLoading = false;
-  }
-}
-
 // --- Pure functions (unchanged, used by tests) ---
 
-/** Serialize game state to JSON for a given team's perspective. */
-export function serializeState(units: Unit[], obstacles: Obstacle[], forTeam: Team): string {
+/** Serialize game state to JSON for a given team's perspective. With fog, only what that team knows. */
+export function serializeState(units: Unit[], obstacles: Obstacle[], forTeam: Team, fog?: FogOfWar): string {
   const myUnits = units.filter(u => u.alive && u.team === forTeam);
-  const enemyUnits = units.filter(u => u.alive && u.team !== forTeam);
+  const enemyUnits = knownEnemies(units, forTeam, fog);
 
   return JSON.stringify({
     map: { width: MAP_WIDTH, height: MAP_HEIGHT },
@@ -56,43 +23,178 @@ export function serializeState(units: Unit[], obstacles: Obstacle[], forTeam: Te
     })),
     enemy_units: enemyUnits.map(u => ({
       id: u.id, type: u.type, pos: [Math.round(u.pos.x), Math.round(u.pos.y)], hp: u.hp, max_hp: u.maxHp,
+      ...(fog && !fog.isVisible(u) ? { last_seen: true } : {}),
     })),
   });
 }
 
-/** Parse raw AI response text into a validated AiResponse, or null if invalid. */
-export function parseAiResponse(raw: string): AiResponse | null {
+function knownEnemies(units: Unit[], team: Team, fog?: FogOfWar): Unit[] {
+  return fog ? fog.knownEnemies(units) : units.filter(u => u.alive && u.team !== team);
+}
+
+function stripFences(raw: string): string {
+  return raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+}
+
+/** Best-effort fix for a reply with chatter around it or cut off mid-way: keep the last complete value and close what's open. */
+export function repairJson(raw: string): string | null {
+  const text = stripFences(raw);
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+  const body = text.slice(start);
+
+  const closers: string[] = [];
+  const cuts: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') inString = true;
+    else if (c === '{') closers.push('}');
+    else if (c === '[') closers.push(']');
+    else if (c === '}' || c === ']') {
+      closers.pop();
+      const cut = body.slice(0, i + 1) + [...closers].reverse().join('');
+      // A closed top-level object: anything after it is chatter
+      if (closers.length === 0) return cut;
+      cuts.push(cut);
+    }
+  }
+
+  // Truncated: the longest prefix ending on a complete value that parses
+  for (let k = cuts.length - 1; k >= 0; k--) {
+    try {
+      JSON.parse(cuts[k]);
+      return cuts[k];
+    } catch {
+      // try a shorter prefix
+    }
+  }
+  return null;
+}
+
+/** Parse raw AI response text, repairing it if needed, and report what had to be fixed or dropped. */
+export function parseOrders(raw: string): { response: AiResponse | null; issues: AiOrderIssue[] } {
+  const issues: AiOrderIssue[] = [];
+  let parsed;
   try {
-    const cleaned = raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
-    const parsed = JSON.parse(cleaned);
-
-    if (!parsed.orders || !Array.isArray(parsed.orders)) return null;
-
-    const validOrders: AiUnitOrder[] = parsed.orders.filter(
-      (o: Record<string, unknown>) =>
-        typeof o.id === 'string' &&
-        Array.isArray(o.move_to) &&
-        o.move_to.length === 2 &&
-        typeof o.move_to[0] === 'number' &&
-        typeof o.move_to[1] === 'number',
-    ).map((o: Record<string, unknown>) => ({
-      id: o.id as string,
-      move_to: o.move_to as [number, number],
-      attack: typeof o.attack === 'string' ? o.attack : null,
-    }));
-
-    if (validOrders.length === 0) return null;
-
-    return { orders: validOrders };
+    parsed = JSON.parse(stripFences(raw));
   } catch {
-    return null;
+    const repaired = repairJson(raw);
+    if (!repaired) return { response: null, issues: [{ kind: 'unparseable', message: 'Reply is not JSON' }] };
+    parsed = JSON.parse(repaired);
+    issues.push({ kind: 'repaired-json', message: 'Reply was cut off or had text around the JSON; repaired it' });
+  }
+
+  if (!parsed?.orders || !Array.isArray(parsed.orders)) {
+    return { response: null, issues: [...issues, { kind: 'unparseable', message: 'Reply has no "orders" array' }] };
+  }
+
+  const validOrders: AiUnitOrder[] = [];
+  for (const o of parsed.orders) {
+    const wellFormed = typeof o?.id === 'string' &&
+      Array.isArray(o.move_to) &&
+      o.move_to.length === 2 &&
+      Number.isFinite(o.move_to[0]) &&
+      Number.isFinite(o.move_to[1]);
+    if (!wellFormed) {
+      issues.push({
+        kind: 'malformed-order',
+        id: typeof o?.id === 'string' ? o.id : undefined,
+        message: `Order ${JSON.stringify(o)} needs a string "id" and "move_to": [x, y]`,
+      });
+      continue;
+    }
+    validOrders.push({ id: o.id, move_to: [o.move_to[0], o.move_to[1]], attack: typeof o.attack === 'string' ? o.attack : null });
+  }
+
+  if (validOrders.length === 0) return { response: null, issues: [...issues, { kind: 'unparseable', message: 'Reply has no usable orders' }] };
+  return { response: { orders: validOrders }, issues };
+}
+
+/** Parse raw AI response text into a validated AiResponse, or null if invalid. */
+export function parseAiResponse(raw: string): AiResponse | null {
+  return parseOrders(raw).response;
+}
+
+/**
+ * Check orders against the battlefield: drop orders for unknown or repeated units, pull moves
+ * onto the map and out of `blocks`, and clear attack targets that aren't live enemies.
+ */
+export function validateOrders(response: AiResponse, units: Unit[], team: Team, blocks: Obstacle[] = []): { response: AiResponse; issues: AiOrderIssue[] } {
+  const issues: AiOrderIssue[] = [];
+  const orders: AiUnitOrder[] = [];
+  const seen = new Set<string>();
+
+  for (const order of response.orders) {
+    const { id } = order;
+    const unit = units.find(u => u.id === id && u.alive && u.team === team);
+    if (!unit) {
+      issues.push({ kind: 'unknown-unit', id, message: `No live ${team} unit "${id}"; order dropped` });
+      continue;
+    }
+    if (seen.has(id)) {
+      issues.push({ kind: 'duplicate-order', id, message: `Second order for "${id}" dropped` });
+      continue;
+    }
+    seen.add(id);
+
+    const [x, y] = order.move_to;
+    let dest = {
+      x: Math.max(unit.radius, Math.min(MAP_WIDTH - unit.radius, x)),
+      y: Math.max(unit.radius, Math.min(MAP_HEIGHT - unit.radius, y)),
+    };
+    if (dest.x !== x || dest.y !== y) {
+      issues.push({ kind: 'off-map', id, message: `"${id}" move_to ${fmtPos(x, y)} is off the map; clamped to ${fmtPos(dest.x, dest.y)}` });
+    }
+    const free = nudgeOutOfBlocks(dest, blocks, unit.radius + 1);
+    if (free !== dest) {
+      issues.push({ kind: 'in-block', id, message: `"${id}" move_to ${fmtPos(dest.x, dest.y)} is inside a block; moved to ${fmtPos(free.x, free.y)}` });
+      dest = free;
+    }
+
+    let attack = order.attack;
+    if (attack && !units.some(u => u.id === attack && u.alive && u.team !== team)) {
+      issues.push({ kind: 'bad-target', id, message: `"${id}" attack "${attack}" is not a live enemy; cleared` });
+      attack = null;
+    }
+
+    orders.push({ id, move_to: [dest.x, dest.y], attack });
   }
+
+  return { response: { orders }, issues };
+}
+
+function fmtPos(x: number, y: number): string {
+  return `[${Math.round(x)},${Math.round(y)}]`;
+}
+
+/** Follow-up prompt asking the model to fix the listed problems. */
+export function retryPrompt(issues: AiOrderIssue[]): string {
+  return `Your orders had errors:\n${issues.map(i => `- ${i.message}`).join('\n')}\nReply again with corrected JSON only, one order per alive unit.`;
+}
+
+/** Plain-text summary of a planning round for the debug panel. */
+export function formatDiagnostics(d: AiDiagnostics): string {
+  const lines = [`${d.attempts.length} attempt(s), ${(d.elapsedMs / 1000).toFixed(1)}s${d.timedOut ? ', timed out' : ''}`];
+  d.attempts.forEach((a, i) => {
+    lines.push(`#${i + 1}: ${a.issues.length === 0 ? 'ok' : `${a.issues.length} issue(s)`}`);
+    for (const issue of a.issues) lines.push(`  [${issue.kind}] ${issue.message}`);
+  });
+  if (d.backfilled.length > 0) lines.push(`Backfilled: ${d.backfilled.join(', ')}`);
+  return lines.join('\n');
 }
 
 /** Generate simple fallback orders when AI is unavailable. */
-export function fallbackOrders(units: Unit[], team: Team): AiResponse {
+export function fallbackOrders(units: Unit[], team: Team, fog?: FogOfWar): AiResponse {
   const myUnits = units.filter(u => u.alive && u.team === team);
-  const enemyUnits = units.filter(u => u.alive && u.team !== team);
+  const enemyUnits = knownEnemies(units, team, fog);
 
   return {
     orders: myUnits.map(u => {
@@ -116,15 +218,33 @@ export function fallbackOrders(units: Unit[], team: Team): AiResponse {
   };
 }
 
+/** Turn orders into waypoints and focus-fire targets on `team`'s units, routed around `blocks`. Unknown ids are ignored. */
+export function applyAiOrders(units: Unit[], team: Team, response: AiResponse, blocks: Obstacle[] = []): void {
+  for (const order of response.orders) {
+    const unit = units.find(u => u.id === order.id && u.alive && u.team === team);
+    if (!unit) continue;
+    const [x, y] = order.move_to;
+    const dest = { x: Math.max(0, Math.min(MAP_WIDTH, x)), y: Math.max(0, Math.min(MAP_HEIGHT, y)) };
+    unit.waypoints = [...detourWaypoints(unit.pos, dest, blocks, unit.radius), dest];
+    unit.moveTarget = null;
+    // Nothing from an earlier round's plan carries over, the same as clearing paths
+    unit.holdTime = undefined;
+    unit.awaitingGo = false;
+    unit.facing = undefined;
+    const target = order.attack ? units.find(u => u.id === order.attack && u.alive && u.team !== team) : undefined;
+    unit.attackTargetId = target?.id ?? null;
+  }
+}
+
 /** Fill in orders for any alive units the AI didn't include. */
-function backfillOrders(aiResponse: AiResponse, units: Unit[], team: Team): AiResponse {
+function backfillOrders(aiResponse: AiResponse, units: Unit[], team: Team, fog?: FogOfWar): AiResponse {
   const myUnits = units.filter(u => u.alive && u.team === team);
   const orderedIds = new Set(aiResponse.orders.map(o => o.id));
   const missing = myUnits.filter(u => !orderedIds.has(u.id));
 
   if (missing.length === 0) return aiResponse;
 
-  const fb = fallbackOrders(units, team);
+  const fb = fallbackOrders(units, team, fog);
   const missingOrders = fb.orders.filter(o => !orderedIds.has(o.id));
 
   return { orders: [...aiResponse.orders, ...missingOrders] };
@@ -132,66 +252,114 @@ function backfillOrders(aiResponse: AiResponse, units: Unit[], team: Team): AiRe
 
 // --- AiCommander class ---
 
-/** Uses WebLLM (primary) or Chrome AI (fallback) to issue orders each tick. */
+const MAX_RETRIES = 1;
+
+/** Resolve with the task's value, or null and abort the task if `deadline` (epoch ms) passes first. */
+function withDeadline<T>(task: (signal: AbortSignal) => Promise<T>, deadline: number): Promise<T | null> {
+  const controller = new AbortController();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      resolve(null);
+    }, Math.max(0, deadline - Date.now()));
+    task(controller.signal).then(
+      value => { clearTimeout(timer); resolve(value); },
+      err => { clearTimeout(timer); reject(err); },
+    );
+  });
+}
+
+/** Asks a language-model backend (WebLLM by default) for orders each round. */
 export class AiCommander {
-  private engine: MLCEngine | null = null;
+  private backend: CommanderBackend;
+  private ready = false;
   private team: Team;
   private userPrompt: string;
   private systemPrompt = '';
+  private timeBudgetMs: number;
+  /** What happened in the latest getOrders call. */
+  lastDiagnostics: AiDiagnostics | null = null;
 
-  constructor(team: Team, userPrompt: string) {
+  constructor(team: Team, userPrompt: string, backend: CommanderBackend = new WebLlmBackend(), timeBudgetMs = AI_TIME_BUDGET_MS) {
     this.team = team;
     this.userPrompt = userPrompt;
+    this.backend = backend;
+    this.timeBudgetMs = timeBudgetMs;
   }
 
   async init(): Promise<boolean> {
-    // Build system prompt (needed for both backends)
     const side = this.team === 'blue' ? 'BOTTOM' : 'TOP';
     this.systemPrompt = SYSTEM_PROMPT
       .replace('{side}', side)
       .replace('{userPrompt}', this.userPrompt);
 
-    // Try WebLLM first
-    const engine = await getEngine();
-    if (engine) {
-      this.engine = engine;
-      console.log(`[${this.team}] WebLLM engine ready`);
-      return true;
+    this.ready = await this.backend.init();
+    if (this.ready) {
+      console.log(`[${this.team}] ${this.backend.name} backend ready`);
+    } else {
+      console.warn(`[${this.team}] ${this.backend.name} backend unavailable, using fallback`);
     }
-
-    console.warn(`[${this.team}] WebLLM unavailable, using fallback`);
-    return false;
+    return this.ready;
   }
 
-  async getOrders(units: Unit[], obstacles: Obstacle[]): Promise<AiResponse> {
-    if (!this.engine) {
+  /**
+   * Ask for orders, validating and repairing them, with one retry that lists what was wrong.
+   * Gives up when the time budget runs out; an empty response means the caller should plan instead.
+   */
+  async getOrders(units: Unit[], obstacles: Obstacle[], fog?: FogOfWar, blocks: Obstacle[] = obstacles): Promise<AiResponse> {
+    if (!this.ready) {
       throw new Error(`[${this.team}] AI engine not initialized`);
     }
 
-    const stateJson = serializeState(units, obstacles, this.team);
-
-    const response = await this.engine.chat.completions.create({
-      messages: [
-        { role: 'system', content: this.systemPrompt },
-        { role: 'user', content: stateJson },
-      ],
-      max_tokens: 512,
-    });
-
-    const raw = response.choices[0].message.content ?? '';
-    console.log(`[${this.team}] AI responded:`, raw.substring(0, 200));
+    const started = Date.now();
+    const diagnostics: AiDiagnostics = { attempts: [], elapsedMs: 0, timedOut: false, backfilled: [] };
+    this.lastDiagnostics = diagnostics;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: this.systemPrompt },
+      { role: 'user', content: serializeState(units, obstacles, this.team, fog) },
+    ];
+    let best: AiResponse | null = null;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      let raw: string | null;
+      try {
+        raw = await withDeadline(signal => this.backend.complete(messages, 512, signal), started + this.timeBudgetMs);
+      } catch (err) {
+        // A failed retry still leaves the earlier attempt's orders usable
+        if (!best) throw err;
+        console.warn(`[${this.team}] AI retry failed, keeping earlier orders:`, err);
+        break;
+      }
+      if (raw === null) {
+        diagnostics.timedOut = true;
+        break;
+      }
+      console.log(`[${this.team}] AI responded:`, raw.substring(0, 200));
+
+      const parsed = parseOrders(raw);
+      const checked = parsed.response ? validateOrders(parsed.response, units, this.team, blocks) : null;
+      const issues = [...parsed.issues, ...(checked?.issues ?? [])];
+      diagnostics.attempts.push({ raw, issues });
+      if (checked && checked.response.orders.length > 0) best = checked.response;
+      if (issues.length === 0) break;
+
+      messages.push({ role: 'assistant', content: raw }, { role: 'user', content: retryPrompt(issues) });
+    }
+    diagnostics.elapsedMs = Date.now() - started;
 
-    const parsed = parseAiResponse(raw);
-    if (!parsed) {
-      console.warn(`[${this.team}] Failed to parse AI response, skipping`);
+    if (!best) {
+      console.warn(`[${this.team}] No usable AI orders, skipping`);
       return { orders: [] };
     }
 
-    return backfillOrders(parsed, units, this.team);
+    const filled = backfillOrders(best, units, this.team, fog);
+    diagnostics.backfilled = filled.orders.slice(best.orders.length).map(o => o.id);
+    return filled;
   }
 
   destroy(): void {
-    // Shared engine persists — don't destroy it
-    this.engine = null;
+    // Backends may share engines across commanders — don't tear them down
+    this.ready = false;
   }
 }
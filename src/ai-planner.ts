@@ -0,0 +1,112 @@
+import { Unit, Team, Obstacle, ElevationZone, TerrainZone, CoverBlock, Vec2 } from './types';
+import { MAP_WIDTH, MAP_HEIGHT, AI_OPTIONS_PER_UNIT } from './constants';
+import { detourWaypoints, segmentHitsRect } from './units';
+import { scorePosition, generateCandidates } from './ai-scoring';
+import { unitDef } from './unit-defs';
+import { FogOfWar } from './fog';
+import { PositionOption, assignPositions } from './ai-assignment';
+
+/**
+ * Give every planning unit on `team` waypoints to a reachable position, matched as a team so units
+ * take different spots and angles rather than each grabbing its own best one.
+ * With fog, only enemies the team has seen count — at their last-known spots.
+ * Each unit also gets a focus-fire order on the weakest enemy it will be able to reach from there,
+ * and a watch direction facing the nearest threat.
+ */
+export function generateAiPaths(units: Unit[], team: Team, obstacles: Obstacle[], elevationZones: ElevationZone[], fog?: FogOfWar, terrainZones: TerrainZone[] = [], coverBlocks: CoverBlock[] = []): void {
+  const enemies = fog ? fog.knownEnemies(units) : units.filter(u => u.alive && u.team !== team);
+  const planners = teamOptions(units, team, enemies, obstacles, elevationZones, terrainZones, coverBlocks);
+  const assigned = assignPositions(planners.map(p => p.options), enemies);
+  planners.forEach(({ unit }, i) => orderUnit(unit, team, assigned[i], enemies));
+}
+
+export interface UnitOptions {
+  unit: Unit;
+  /** Best navigable spots for this round, best first. */
+  options: PositionOption[];
+}
+
+/** Every planning unit on `team` with the spots it could take this round. Chasers are left out — they chase in real-time. */
+export function teamOptions(units: Unit[], team: Team, enemies: Unit[], obstacles: Obstacle[], elevationZones: ElevationZone[], terrainZones: TerrainZone[] = [], coverBlocks: CoverBlock[] = []): UnitOptions[] {
+  const allBlockers = [...obstacles, ...coverBlocks];
+  const teamUnits = units.filter(u => u.alive && u.team === team);
+
+  const candidates = generateCandidates(
+    teamUnits[0] ?? { pos: { x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 }, speed: 100, radius: 10 } as Unit,
+    obstacles,
+    elevationZones,
+    terrainZones,
+    coverBlocks,
+  );
+
+  return teamUnits
+    .filter(u => unitDef(u.type).movement !== 'chase')
+    .map(unit => {
+      const scored = candidates
+        .map(candidate => ({
+          pos: candidate,
+          score: scorePosition({ candidate, unit, enemies, allies: teamUnits, obstacles, elevationZones, terrainZones, coverBlocks }),
+        }))
+        .filter(c => c.score !== -Infinity)
+        .sort((a, b) => b.score - a.score);
+      return { unit, options: navigableOptions(unit, scored, allBlockers) };
+    });
+}
+
+/**
+ * Send `unit` to `option`, or keep it in place without one. It focuses the weakest enemy
+ * it will reach from there and watches the nearest threat.
+ */
+export function orderUnit(unit: Unit, team: Team, option: PositionOption | null, enemies: Unit[]): void {
+  const bestPos = option?.pos ?? unit.pos;
+  unit.waypoints = option ? option.waypoints.map(wp => ({ ...wp })) : [{ ...bestPos }];
+  unit.attackTargetId = pickFocusTarget(unit, bestPos, enemies)?.id ?? null;
+  unit.facing = threatFacing(team, bestPos, enemies);
+}
+
+/** The best-scoring candidates (in order) whose full waypoint chain from `unit` is obstacle-free. */
+function navigableOptions(unit: Unit, scored: { pos: Vec2; score: number }[], blockers: Obstacle[]): PositionOption[] {
+  const margin = 8;
+  const padding = unit.radius + margin;
+  const options: PositionOption[] = [];
+  for (const { pos, score } of scored) {
+    if (options.length >= AI_OPTIONS_PER_UNIT) break;
+    const chain = [...detourWaypoints(unit.pos, pos, blockers, padding), pos];
+
+    // Validate every segment in the chain
+    let prev = unit.pos;
+    const pathClear = chain.every(wp => {
+      const clear = !blockers.some(o => segmentHitsRect(prev, wp, o, padding));
+      prev = wp;
+      return clear;
+    });
+    if (pathClear) options.push({ pos, score, waypoints: chain });
+  }
+  return options;
+}
+
+/** Angle from `from` to the nearest enemy, or straight at the enemy's side of the map when none are known. */
+function threatFacing(team: Team, from: Vec2, enemies: Unit[]): number {
+  let nearest: Unit | null = null;
+  let nearestDist = Infinity;
+  for (const e of enemies) {
+    const d = Math.hypot(e.pos.x - from.x, e.pos.y - from.y);
+    if (d < nearestDist) {
+      nearest = e;
+      nearestDist = d;
+    }
+  }
+  if (!nearest) return team === 'blue' ? -Math.PI / 2 : Math.PI / 2;
+  return Math.atan2(nearest.pos.y - from.y, nearest.pos.x - from.x);
+}
+
+/** Lowest-HP enemy within reach of `from`, so the team finishes off the wounded first. */
+function pickFocusTarget(unit: Unit, from: Vec2, enemies: Unit[]): Unit | null {
+  let best: Unit | null = null;
+  for (const e of enemies) {
+    const reach = unit.range + unit.radius + e.radius;
+    if (Math.hypot(e.pos.x - from.x, e.pos.y - from.y) > reach) continue;
+    if (!best || e.hp < best.hp) best = e;
+  }
+  return best;
+}
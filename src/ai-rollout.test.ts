@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { generateRolloutPaths, rolloutTrade, RolloutContext } from './ai-rollout';
+import { capturePlan } from './path-history';
+import { createUnit } from './units';
+
+const ctx: RolloutContext = { obstacles: [], elevationZones: [], terrainZones: [], coverBlocks: [] };
+
+function standoff() {
+  const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 600, y: 100 });
+  const blues = [0, 1, 2].map(i => createUnit(`blue_soldier_${i}`, 'soldier', 'blue', { x: 560 + i * 40, y: 500 }));
+  const world = [red, ...blues];
+  // Blue holds its ground
+  return { red, world, hold: capturePlan(world, 'blue') };
+}
+
+describe('rolloutTrade', () => {
+  it('scores charging into a larger squad below staying out of range', () => {
+    const { red, world, hold } = standoff();
+    const charge = new Map([[red.id, { pos: { x: 600, y: 470 }, score: 0, waypoints: [{ x: 600, y: 470 }] }]]);
+    const stay = new Map([[red.id, null]]);
+
+    const charging = rolloutTrade(world, 'red', charge, hold, ctx, 'test');
+    const staying = rolloutTrade(world, 'red', stay, hold, ctx, 'test');
+
+    expect(charging).toBeLessThan(0);
+    expect(staying).toBe(0);
+  });
+
+  it('plays on copies and leaves the real units alone', () => {
+    const { red, world, hold } = standoff();
+    const charge = new Map([[red.id, { pos: { x: 600, y: 470 }, score: 0, waypoints: [{ x: 600, y: 470 }] }]]);
+
+    rolloutTrade(world, 'red', charge, hold, ctx, 'test');
+
+    expect(red.pos).toEqual({ x: 600, y: 100 });
+    expect(red.hp).toBe(red.maxHp);
+    expect(world.every(u => u.waypoints.length === 0)).toBe(true);
+  });
+});
+
+describe('generateRolloutPaths', () => {
+  it('still plans every unit when the time budget is already spent', () => {
+    const { red, world } = standoff();
+
+    generateRolloutPaths(world, 'red', [], [], undefined, [], [], { budgetMs: 0 });
+
+    expect(red.waypoints.length).toBeGreaterThan(0);
+  });
+
+  it('picks a plan that does not lose the trade when outnumbered', () => {
+    const { red, world, hold } = standoff();
+
+    generateRolloutPaths(world, 'red', [], [], undefined, [], [], { budgetMs: 5000, samples: 4, seed: 'pick' });
+
+    const plan = new Map([[red.id, { pos: red.waypoints[red.waypoints.length - 1], score: 0, waypoints: red.waypoints }]]);
+    expect(rolloutTrade(world, 'red', plan, hold, ctx, 'check')).toBeGreaterThanOrEqual(0);
+  });
+});
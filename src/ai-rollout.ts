@@ -0,0 +1,169 @@
+import { Unit, Team, Obstacle, ElevationZone, TerrainZone, CoverBlock } from './types';
+import { ROUND_DURATION_S, AI_ROLLOUT_BUDGET_MS, AI_ROLLOUT_SAMPLES } from './constants';
+import { generateAiPaths, teamOptions, orderUnit } from './ai-planner';
+import { PositionOption, assignPositions } from './ai-assignment';
+import { detourWaypoints } from './units';
+import { BattleSimulation } from './simulation';
+import { FogOfWar } from './fog';
+import { Rng, createRng } from './rng';
+import { PlanSnapshot, capturePlan, restorePlan } from './path-history';
+
+/** Where each planning unit goes, by unit id; a missing or null entry holds position. */
+export type TeamPlan = Map<string, PositionOption | null>;
+
+/** A guess at the opponent's plan, made on a copy of the units. */
+export type OpponentGuess = (world: Unit[], opponent: Team, ctx: RolloutContext) => void;
+
+export interface RolloutContext {
+  obstacles: Obstacle[];
+  elevationZones: ElevationZone[];
+  terrainZones: TerrainZone[];
+  coverBlocks: CoverBlock[];
+}
+
+export interface RolloutOptions {
+  /** Search time; the planner's own plan is always tried even when it runs out. */
+  budgetMs?: number;
+  /** Random team plans to try beyond the planner's and holding still. */
+  samples?: number;
+  seed?: string;
+}
+
+// Coarser than the real tick: rollouts only need the rough outcome, and many must fit the budget
+const ROLLOUT_TICK_RATE = 20;
+const ROLLOUT_STEP_S = 1 / ROLLOUT_TICK_RATE;
+const STEPS_PER_ROUND = ROUND_DURATION_S * ROLLOUT_TICK_RATE + 1;
+
+/** Opponent plans the hard AI braces for: the scoring planner's, sitting tight, and a straight rush. */
+export const OPPONENT_GUESSES: OpponentGuess[] = [
+  (world, opponent, ctx) => {
+    generateAiPaths(world, opponent, ctx.obstacles, ctx.elevationZones, undefined, ctx.terrainZones, ctx.coverBlocks);
+  },
+  (world, opponent) => {
+    for (const u of world) {
+      if (u.team === opponent) u.waypoints = [];
+    }
+  },
+  (world, opponent, ctx) => {
+    const blocks = [...ctx.obstacles, ...ctx.coverBlocks];
+    const targets = world.filter(u => u.alive && u.team !== opponent);
+    for (const u of world) {
+      if (!u.alive || u.team !== opponent) continue;
+      const target = nearest(u, targets);
+      if (target) u.waypoints = [...detourWaypoints(u.pos, target.pos, blocks, u.radius + 8), { ...target.pos }];
+    }
+  },
+];
+
+/**
+ * Hard AI: sample whole-team plans and play each one forward for a round against every
+ * opponent guess, on copies of the units. The plan with the best average HP trade wins.
+ * With fog, the opponent is only what `team` knows of it, at last-seen spots.
+ */
+export function generateRolloutPaths(
+  units: Unit[], team: Team, obstacles: Obstacle[], elevationZones: ElevationZone[], fog?: FogOfWar,
+  terrainZones: TerrainZone[] = [], coverBlocks: CoverBlock[] = [], opts: RolloutOptions = {},
+): void {
+  const deadline = Date.now() + (opts.budgetMs ?? AI_ROLLOUT_BUDGET_MS);
+  const seed = opts.seed ?? 'rollout';
+  const rng = createRng(seed);
+  const ctx: RolloutContext = { obstacles, elevationZones, terrainZones, coverBlocks };
+  const enemies = fog ? fog.knownEnemies(units) : units.filter(u => u.alive && u.team !== team);
+  const world = [...units.filter(u => u.alive && u.team === team), ...enemies];
+
+  const opponent = team === 'blue' ? 'red' : 'blue';
+  const guesses = OPPONENT_GUESSES.map(guess => {
+    const copy = world.map(u => structuredClone(u));
+    guess(copy, opponent, ctx);
+    return capturePlan(copy, opponent);
+  });
+
+  const planners = teamOptions(units, team, enemies, obstacles, elevationZones, terrainZones, coverBlocks);
+  const plans = candidatePlans(planners.map(p => p.unit), planners.map(p => p.options), enemies, opts.samples ?? AI_ROLLOUT_SAMPLES, rng);
+
+  let best = plans[0];
+  let bestTrade = -Infinity;
+  for (let i = 0; i < plans.length; i++) {
+    if (i > 0 && Date.now() > deadline) break;
+    const trade = expectedTrade(world, team, plans[i], guesses, ctx, seed);
+    if (trade > bestTrade) {
+      best = plans[i];
+      bestTrade = trade;
+    }
+  }
+
+  for (const { unit } of planners) orderUnit(unit, team, best.get(unit.id) ?? null, enemies);
+}
+
+/** The planner's team assignment first, then holding still, then random picks leaning toward each unit's top spots. */
+function candidatePlans(units: Unit[], options: PositionOption[][], enemies: Unit[], samples: number, rng: Rng): TeamPlan[] {
+  const assigned = assignPositions(options, enemies);
+  const plans: TeamPlan[] = [
+    new Map(units.map((u, i) => [u.id, assigned[i]])),
+    new Map(units.map(u => [u.id, null])),
+  ];
+  for (let s = 0; s < samples; s++) {
+    plans.push(new Map(units.map((u, i) => {
+      const opts = options[i];
+      return [u.id, opts.length > 0 ? opts[Math.floor(rng() * rng() * opts.length)] : null];
+    })));
+  }
+  return plans;
+}
+
+/** Average HP trade of `plan` over the guessed opponent plans. */
+export function expectedTrade(world: Unit[], team: Team, plan: TeamPlan, guesses: PlanSnapshot[], ctx: RolloutContext, seed: string): number {
+  let total = 0;
+  guesses.forEach((guess, g) => {
+    // Same seed per guess across plans, so plans are compared on the same dice rolls
+    total += rolloutTrade(world, team, plan, guess, ctx, `${seed}-${g}`);
+  });
+  return total / Math.max(guesses.length, 1);
+}
+
+/**
+ * Play one round headlessly on copies of `world`: `team` follows `plan`, the opponent follows `guess`.
+ * Returns HP taken from the opponent minus HP lost.
+ */
+export function rolloutTrade(world: Unit[], team: Team, plan: TeamPlan, guess: PlanSnapshot, ctx: RolloutContext, seed: string): number {
+  const units = world.map(u => structuredClone(u));
+  const enemies = units.filter(u => u.alive && u.team !== team);
+  for (const u of units) {
+    u.moveTarget = null;
+    u.holdTime = undefined;
+    u.awaitingGo = false;
+    if (u.team === team && plan.has(u.id)) orderUnit(u, team, plan.get(u.id) ?? null, enemies);
+  }
+  restorePlan(units, guess);
+
+  const ownBefore = sideHp(units, team, true);
+  const enemyBefore = sideHp(units, team, false);
+  const sim = new BattleSimulation({ ...ctx, units, rng: createRng(seed) });
+  sim.startRound();
+  for (let i = 0; i < STEPS_PER_ROUND; i++) {
+    if (sim.step(ROLLOUT_STEP_S).some(e => e.type === 'round-end' || e.type === 'battle-end')) break;
+  }
+  return (enemyBefore - sideHp(units, team, false)) - (ownBefore - sideHp(units, team, true));
+}
+
+/** Summed HP of live units on `team` (own) or against it. */
+function sideHp(units: Unit[], team: Team, own: boolean): number {
+  let hp = 0;
+  for (const u of units) {
+    if (u.alive && (u.team === team) === own) hp += Math.max(0, u.hp);
+  }
+  return hp;
+}
+
+function nearest(from: Unit, others: Unit[]): Unit | null {
+  let best: Unit | null = null;
+  let bestDist = Infinity;
+  for (const o of others) {
+    const d = Math.hypot(o.pos.x - from.pos.x, o.pos.y - from.pos.y);
+    if (d < bestDist) {
+      best = o;
+      bestDist = d;
+    }
+  }
+  return best;
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { scorePosition, generateCandidates } from './ai-scoring';
 import { createUnit } from './units';
-import { Obstacle, ElevationZone } from './types';
+import { Obstacle, ElevationZone, TerrainZone } from './types';
 
 describe('scorePosition', () => {
   const enemies = [
@@ -115,6 +115,101 @@ describe('scorePosition', () => {
 
     expect(elevatedScore).toBeGreaterThan(flatScore);
   });
+
+  it('prefers the sheltered side of a cover block', () => {
+    const soldier = createUnit('s1', 'soldier', 'red', { x: 600, y: 300 });
+    const cover = { x: 560, y: 495, w: 80, h: 10 };
+    const score = (candidate: { x: number; y: number }, coverBlocks = [cover]) => scorePosition({
+      candidate,
+      unit: soldier,
+      enemies,
+      obstacles,
+      elevationZones,
+      coverBlocks,
+    });
+
+    // Behind the wall (enemy is below at y=600) vs the same spot on open ground
+    expect(score({ x: 600, y: 480 })).toBeGreaterThan(score({ x: 600, y: 480 }, []));
+    // On the enemy's side of the wall it doesn't help
+    expect(score({ x: 600, y: 520 })).toBe(score({ x: 600, y: 520 }, []));
+  });
+
+  it('offers spots on both sides of cover blocks', () => {
+    const unit = createUnit('s1', 'soldier', 'red', { x: 600, y: 300 });
+    const cover = { x: 560, y: 395, w: 80, h: 10 };
+    const candidates = generateCandidates(unit, [], [], [], [cover]);
+    expect(candidates.some(c => c.x === 600 && c.y < 395 && c.y > 375)).toBe(true);
+    expect(candidates.some(c => c.x === 600 && c.y > 405 && c.y < 425)).toBe(true);
+    // Nothing lands inside the block itself
+    expect(candidates.some(c => c.x >= 560 && c.x <= 640 && c.y >= 395 && c.y <= 405)).toBe(false);
+  });
+
+  it('shooters seek brush and stay out of water', () => {
+    const soldier = createUnit('s1', 'soldier', 'red', { x: 600, y: 400 });
+    const brush: TerrainZone = { x: 450, y: 450, w: 100, h: 100, kind: 'brush' };
+    const water: TerrainZone = { x: 650, y: 450, w: 100, h: 100, kind: 'water' };
+    const score = (candidate: { x: number; y: number }) => scorePosition({
+      candidate,
+      unit: soldier,
+      enemies,
+      obstacles,
+      elevationZones,
+      terrainZones: [brush, water],
+    });
+
+    // Mirror-image spots, same distance from the enemy
+    expect(score({ x: 500, y: 500 })).toBeGreaterThan(score({ x: 600, y: 500 }));
+    expect(score({ x: 700, y: 500 })).toBeLessThan(score({ x: 600, y: 500 }));
+  });
+
+  it('grenadiers prefer positions hidden from the enemy', () => {
+    const grenadier = createUnit('g1', 'grenadier', 'red', { x: 600, y: 300 });
+    const wall: Obstacle = { x: 560, y: 480, w: 80, h: 20 };
+
+    const hiddenScore = scorePosition({
+      candidate: { x: 600, y: 420 },
+      unit: grenadier,
+      enemies,
+      obstacles: [wall],
+      elevationZones,
+    });
+
+    const exposedScore = scorePosition({
+      candidate: { x: 450, y: 420 },
+      unit: grenadier,
+      enemies,
+      obstacles: [wall],
+      elevationZones,
+    });
+
+    expect(hiddenScore).toBeGreaterThan(exposedScore);
+  });
+
+    it('medics prefer staying behind the front-line ally', () => {
+    const medic = createUnit('m1', 'medic', 'red', { x: 600, y: 200 });
+    const frontLiner = createUnit('r1', 'soldier', 'red', { x: 600, y: 420 });
+    const allies = [medic, frontLiner];
+
+    const behindScore = scorePosition({
+      candidate: { x: 600, y: 350 },
+      unit: medic,
+      enemies,
+      allies,
+      obstacles,
+      elevationZones,
+    });
+
+    const aheadScore = scorePosition({
+      candidate: { x: 600, y: 480 },
+      unit: medic,
+      enemies,
+      allies,
+      obstacles,
+      elevationZones,
+    });
+
+    expect(behindScore).toBeGreaterThan(aheadScore);
+  });
 });
 
 describe('generateCandidates', () => {
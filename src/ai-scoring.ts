@@ -1,36 +1,26 @@
-import { Unit, Vec2, Obstacle, ElevationZone, UnitType } from './types';
+import { Unit, Vec2, Obstacle, ElevationZone, TerrainZone, CoverBlock } from './types';
 import { ROUND_DURATION_S, MAP_WIDTH, MAP_HEIGHT } from './constants';
-import { hasLineOfSight, getElevationLevel, flankScore } from './units';
+import { hasLineOfSight, getElevationLevel, flankScore, isProtectedByCover } from './units';
+import { unitDef } from './unit-defs';
+import { terrainAt } from './terrain';
 
 export interface ScoringContext {
   candidate: Vec2;
   unit: Unit;
   enemies: Unit[];
+  /** Teammates, for support units that want to stay behind them. */
+  allies?: Unit[];
   obstacles: Obstacle[];
   elevationZones: ElevationZone[];
+  terrainZones?: TerrainZone[];
+  coverBlocks?: CoverBlock[];
 }
 
-/** Role-based scoring weights per unit type. */
-const WEIGHTS: Record<UnitType, {
-  distIdeal: [number, number]; // [min, max] preferred distance to nearest enemy
-  distPenaltyScale: number;
-  los: number;
-  elevation: number;
-  cover: number;
-  flank: number;
-}> = {
-  sniper:  { distIdeal: [180, 300], distPenaltyScale: 0.15, los: 30, elevation: 25, cover: 20, flank: 5 },
-  blade:   { distIdeal: [0, 40],    distPenaltyScale: 0.25, los: 15, elevation: 5,  cover: 5,  flank: 15 },
-  soldier: { distIdeal: [50, 120],  distPenaltyScale: 0.15, los: 20, elevation: 15, cover: 15, flank: 25 },
-  zombie:  { distIdeal: [0, 30],    distPenaltyScale: 0.1,  los: 5,  elevation: 0,  cover: 0,  flank: 5 },
-  shielder: { distIdeal: [0, 30], distPenaltyScale: 0.3, los: 5, elevation: 0, cover: 5, flank: 5 },
-  bomber:   { distIdeal: [0, 20], distPenaltyScale: 0.3, los: 5, elevation: 0, cover: 0, flank: 0 },
-};
-
 /** Score a candidate position for a given unit. Higher is better. */
 export function scorePosition(ctx: ScoringContext): number {
-  const { candidate, unit, enemies, obstacles, elevationZones } = ctx;
-  const w = WEIGHTS[unit.type];
+  const { candidate, unit, enemies, allies = [], obstacles, elevationZones, terrainZones = [], coverBlocks = [] } = ctx;
+  const def = unitDef(unit.type);
+  const w = def.scoring;
 
   // Check reachability: can the unit reach this position within ROUND_DURATION_S?
   const dx = candidate.x - unit.pos.x;
@@ -63,19 +53,54 @@ export function scorePosition(ctx: ScoringContext): number {
       score -= (nearestDist - idealMax) * w.distPenaltyScale;
     }
 
-    // Line of sight bonus
-    if (hasLineOfSight(candidate, nearestEnemy.pos, obstacles)) {
+    // Line of sight bonus — indirect fire doesn't need it, so it prefers hiding behind cover instead
+    const visible = hasLineOfSight(candidate, nearestEnemy.pos, obstacles);
+    if (def.indirect) {
+      if (!visible) score += w.cover;
+    } else if (visible) {
       score += w.los;
     }
 
+    // Cover bonus: tucked in behind a cover block that faces the enemy
+    const incoming = { x: candidate.x - nearestEnemy.pos.x, y: candidate.y - nearestEnemy.pos.y };
+    if (isProtectedByCover(candidate, incoming, candidate, coverBlocks)) score += w.cover;
+
     // Flank angle bonus
     score += flankScore(candidate, nearestEnemy.pos, nearestEnemy.gunAngle) * w.flank;
+
+    // Support: stay further back than the front-line ally but close enough to reach it
+    if (w.support) {
+      let front: Unit | null = null;
+      let frontDist = Infinity;
+      for (const a of allies) {
+        if (a.id === unit.id) continue;
+        const d = Math.hypot(a.pos.x - nearestEnemy.pos.x, a.pos.y - nearestEnemy.pos.y);
+        if (d < frontDist) {
+          frontDist = d;
+          front = a;
+        }
+      }
+      const reach = def.heal?.radius ?? unit.range;
+      if (front && nearestDist > frontDist && Math.hypot(candidate.x - front.pos.x, candidate.y - front.pos.y) <= reach) {
+        score += w.support;
+      }
+    }
   }
 
   // Elevation bonus
   const elevLevel = getElevationLevel(candidate, elevationZones);
   score += elevLevel * w.elevation;
 
+  // Terrain: brush hides like cover, mud leaves the unit slow to reposition, water silences guns
+  const terrain = terrainAt(candidate, terrainZones);
+  if (terrain === 'brush') {
+    score += w.cover;
+  } else if (terrain === 'mud') {
+    score -= w.cover / 2;
+  } else if (terrain === 'water' && (def.attack === 'projectile' || def.attack === 'lob')) {
+    score -= w.los + w.cover;
+  }
+
   return score;
 }
 
@@ -84,10 +109,13 @@ export function generateCandidates(
   unit: Unit,
   obstacles: Obstacle[],
   elevationZones: ElevationZone[],
+  terrainZones: TerrainZone[] = [],
+  coverBlocks: CoverBlock[] = [],
 ): Vec2[] {
   const maxDist = unit.speed * ROUND_DURATION_S;
   const padding = unit.radius + 4;
   const candidates: Vec2[] = [];
+  const blockers = [...obstacles, ...coverBlocks];
 
   // 50px grid across reachable area
   const gridStep = 50;
@@ -99,20 +127,31 @@ export function generateCandidates(
   for (let x = minX; x <= maxX; x += gridStep) {
     for (let y = minY; y <= maxY; y += gridStep) {
       const pos = { x, y };
-      if (!isInsideObstacle(pos, obstacles, padding)) {
+      if (!isInsideObstacle(pos, blockers, padding)) {
         candidates.push(pos);
       }
     }
   }
 
-  // Center of each reachable elevation zone
-  for (const zone of elevationZones) {
+  // Center of each reachable elevation zone and brush patch
+  for (const zone of [...elevationZones, ...terrainZones.filter(z => z.kind === 'brush')]) {
     const center = { x: zone.x + zone.w / 2, y: zone.y + zone.h / 2 };
-    if (!isInsideObstacle(center, obstacles, padding)) {
+    if (!isInsideObstacle(center, blockers, padding)) {
       candidates.push(center);
     }
   }
 
+  // Both sides of each cover block, close enough to shelter behind it
+  for (const c of coverBlocks) {
+    const off = padding + 1;
+    const sides = c.w >= c.h
+      ? [{ x: c.x + c.w / 2, y: c.y - off }, { x: c.x + c.w / 2, y: c.y + c.h + off }]
+      : [{ x: c.x - off, y: c.y + c.h / 2 }, { x: c.x + c.w + off, y: c.y + c.h / 2 }];
+    for (const pos of sides) {
+      if (!isInsideObstacle(pos, blockers, padding)) candidates.push(pos);
+    }
+  }
+
   return candidates;
 }
 
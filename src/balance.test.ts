@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { runBattle, runBatch, runHordeCurve, parseComposition, formatReport } from './balance';
+import { ARMY_COMPOSITION, HORDE_MAX_WAVES } from './constants';
+
+describe('runBattle', () => {
+  it('is reproducible for a seed', () => {
+    const opts = { blue: ARMY_COMPOSITION, red: ARMY_COMPOSITION, seed: 'balance' };
+    expect(runBattle(opts)).toEqual(runBattle(opts));
+  });
+
+  it('reports survivors that agree with the winner', () => {
+    const result = runBattle({ blue: [{ type: 'sniper', count: 3 }], red: [{ type: 'soldier', count: 1 }], seed: 'lopsided' });
+
+    expect(result.winner).toBe('blue');
+    expect(result.survivors.red).toEqual({ soldier: 0 });
+    expect(result.survivors.blue.sniper).toBeGreaterThan(0);
+    expect(result.damage.blue.sniper).toBeGreaterThan(0);
+  });
+
+  it('calls a draw when the round limit runs out', () => {
+    const result = runBattle({ blue: ARMY_COMPOSITION, red: ARMY_COMPOSITION, seed: 'short', maxRounds: 1 });
+
+    expect(result.rounds).toBe(1);
+    expect(result.winner).toBe('draw');
+  });
+});
+
+describe('runBatch', () => {
+  it('counts every battle exactly once', () => {
+    const report = runBatch({ blue: ARMY_COMPOSITION, red: ARMY_COMPOSITION, battles: 3, seed: 'batch' });
+
+    expect(report.battles).toBe(3);
+    expect(report.wins.blue + report.wins.red + report.wins.draw).toBe(3);
+    expect(report.blueWinRate).toBeCloseTo(report.wins.blue / 3);
+    expect(report.avgDuration).toBeGreaterThan(0);
+    expect(formatReport(report)).toContain('soldier');
+  });
+});
+
+describe('runHordeCurve', () => {
+  it('reports every horde wave', () => {
+    const curve = runHordeCurve({ blue: [{ type: 'soldier', count: 2 }], battles: 1, seed: 'curve', maxRounds: 1 });
+
+    expect(curve.map(r => r.wave)).toEqual(Array.from({ length: HORDE_MAX_WAVES }, (_, i) => i + 1));
+  });
+});
+
+describe('parseComposition', () => {
+  it('parses type:count pairs', () => {
+    expect(parseComposition('soldier:3, sniper')).toEqual([
+      { type: 'soldier', count: 3 },
+      { type: 'sniper', count: 1 },
+    ]);
+  });
+
+  it('rejects unknown types and bad counts', () => {
+    expect(() => parseComposition('tank:2')).toThrow(/tank/);
+    expect(() => parseComposition('soldier:-1')).toThrow(/count/);
+  });
+
+  it('rejects inherited object keys as unit types', () => {
+    expect(() => parseComposition('constructor:2')).toThrow(/constructor/);
+    expect(() => parseComposition('toString:1')).toThrow(/toString/);
+  });
+
+  it('rejects an empty count', () => {
+    expect(() => parseComposition('soldier:')).toThrow(/count/);
+  });
+});
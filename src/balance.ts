@@ -0,0 +1,212 @@
+import { Unit, UnitType, Team } from './types';
+import { ROUND_DURATION_S, SIM_TICK_RATE, SIM_STEP_S } from './constants';
+import { createArmy, createMissionArmy } from './units';
+import { generateObstacles, generateElevationZones, generateTerrainZones, generateCoverBlocks, generateHordeObstacles, generateHordeElevationZones, generateHordeTerrainZones } from './battlefield';
+import { generateAiPaths } from './ai-planner';
+import { BattleSimulation } from './simulation';
+import { HORDE_WAVES } from './horde';
+import { createRng } from './rng';
+import { UNIT_DEFS } from './unit-defs';
+
+export type Composition = { type: UnitType; count: number }[];
+type PerType = Partial<Record<UnitType, number>>;
+
+export interface BalanceBattleOptions {
+  blue: Composition;
+  red: Composition;
+  seed: string;
+  /** Horde rules: horde map, red spread across the top. */
+  horde?: boolean;
+  /** Rounds before the battle is called a draw. */
+  maxRounds?: number;
+}
+
+export interface BalanceBattleResult {
+  winner: Team | 'draw';
+  duration: number;
+  rounds: number;
+  survivors: Record<Team, PerType>;
+  /** Damage dealt, keyed by the attacking unit's type. */
+  damage: Record<Team, PerType>;
+}
+
+export interface BalanceReport {
+  battles: number;
+  wins: Record<Team | 'draw', number>;
+  blueWinRate: number;
+  avgDuration: number;
+  avgRounds: number;
+  avgSurvivors: Record<Team, PerType>;
+  avgDamage: Record<Team, PerType>;
+}
+
+export interface WaveReport extends BalanceReport {
+  wave: number;
+}
+
+const DEFAULT_MAX_ROUNDS = 12;
+const STEPS_PER_ROUND = ROUND_DURATION_S * SIM_TICK_RATE + 1;
+
+/** Play one battle headlessly with both sides on the scoring planner. */
+export function runBattle(opts: BalanceBattleOptions): BalanceBattleResult {
+  const rng = createRng(opts.seed);
+  const obstacles = opts.horde ? generateHordeObstacles(rng) : generateObstacles(rng);
+  const elevationZones = opts.horde ? generateHordeElevationZones(rng) : generateElevationZones(rng);
+  const terrainZones = opts.horde ? generateHordeTerrainZones(rng) : generateTerrainZones(rng);
+  const coverBlocks = generateCoverBlocks(rng);
+  const blocks = [...obstacles, ...coverBlocks];
+  const units = opts.horde
+    ? [...createMissionArmy('blue', opts.blue, blocks), ...createMissionArmy('red', opts.red, blocks)]
+    : [...createArmy('blue', opts.blue), ...createArmy('red', opts.red)];
+  const byId = new Map(units.map(u => [u.id, u]));
+  const sim = new BattleSimulation({ units, obstacles, elevationZones, terrainZones, coverBlocks, rng });
+
+  const damage: Record<Team, PerType> = { blue: {}, red: {} };
+  const maxRounds = opts.maxRounds ?? DEFAULT_MAX_ROUNDS;
+  let rounds = 0;
+  let winner: Team | 'draw' = 'draw';
+
+  while (!sim.isOver && rounds < maxRounds) {
+    rounds++;
+    generateAiPaths(units, 'blue', sim.obstacles, elevationZones, undefined, terrainZones, coverBlocks);
+    generateAiPaths(units, 'red', sim.obstacles, elevationZones, undefined, terrainZones, coverBlocks);
+    sim.startRound();
+
+    let roundOver = false;
+    for (let i = 0; i < STEPS_PER_ROUND && !roundOver; i++) {
+      for (const event of sim.step(SIM_STEP_S)) {
+        if (event.type === 'hit' || event.type === 'kill') {
+          const source = event.sourceId ? byId.get(event.sourceId) : undefined;
+          if (source) addTo(damage[event.team], source.type, event.damage);
+        } else if (event.type === 'battle-end') {
+          winner = event.winner;
+          roundOver = true;
+        } else if (event.type === 'round-end') {
+          roundOver = true;
+        }
+      }
+    }
+  }
+
+  return {
+    winner,
+    duration: sim.elapsedTime,
+    rounds,
+    survivors: { blue: countAlive(units, 'blue', opts.blue), red: countAlive(units, 'red', opts.red) },
+    damage,
+  };
+}
+
+/** Play `battles` seeded battles and average the results. */
+export function runBatch(opts: Omit<BalanceBattleOptions, 'seed'> & { battles: number; seed: string }): BalanceReport {
+  const results: BalanceBattleResult[] = [];
+  for (let i = 0; i < opts.battles; i++) {
+    results.push(runBattle({ ...opts, seed: `${opts.seed}-${i}` }));
+  }
+  return summarize(results);
+}
+
+/** Fight every horde wave with a fresh copy of the blue roster. */
+export function runHordeCurve(opts: { blue: Composition; battles: number; seed: string; maxRounds?: number }): WaveReport[] {
+  return HORDE_WAVES.map(({ wave, enemies }) => ({
+    wave,
+    ...runBatch({
+      blue: opts.blue,
+      red: enemies,
+      horde: true,
+      battles: opts.battles,
+      seed: `${opts.seed}-w${wave}`,
+      maxRounds: opts.maxRounds,
+    }),
+  }));
+}
+
+/** Average a set of battle results into one report. */
+export function summarize(results: BalanceBattleResult[]): BalanceReport {
+  const n = Math.max(results.length, 1);
+  const wins: Record<Team | 'draw', number> = { blue: 0, red: 0, draw: 0 };
+  const avgSurvivors: Record<Team, PerType> = { blue: {}, red: {} };
+  const avgDamage: Record<Team, PerType> = { blue: {}, red: {} };
+  let duration = 0;
+  let rounds = 0;
+
+  for (const r of results) {
+    wins[r.winner]++;
+    duration += r.duration;
+    rounds += r.rounds;
+    for (const team of ['blue', 'red'] as const) {
+      for (const [type, v] of Object.entries(r.survivors[team])) addTo(avgSurvivors[team], type as UnitType, v / n);
+      for (const [type, v] of Object.entries(r.damage[team])) addTo(avgDamage[team], type as UnitType, v / n);
+    }
+  }
+
+  return {
+    battles: results.length,
+    wins,
+    blueWinRate: wins.blue / n,
+    avgDuration: duration / n,
+    avgRounds: rounds / n,
+    avgSurvivors,
+    avgDamage,
+  };
+}
+
+/** Plain-text table of a report, one row per side and unit type. */
+export function formatReport(report: BalanceReport): string {
+  const lines = [
+    `Battles: ${report.battles}  Blue win: ${pct(report.blueWinRate)}  Red win: ${pct(report.wins.red / Math.max(report.battles, 1))}  Draws: ${report.wins.draw}`,
+    `Avg duration: ${report.avgDuration.toFixed(1)}s over ${report.avgRounds.toFixed(1)} rounds`,
+    '',
+    row('Team', 'Type', 'Survivors', 'Damage'),
+  ];
+  for (const team of ['blue', 'red'] as const) {
+    const types = new Set([...Object.keys(report.avgSurvivors[team]), ...Object.keys(report.avgDamage[team])]) as Set<UnitType>;
+    for (const type of types) {
+      lines.push(row(team, type, (report.avgSurvivors[team][type] ?? 0).toFixed(2), (report.avgDamage[team][type] ?? 0).toFixed(0)));
+    }
+  }
+  return lines.join('\n');
+}
+
+/** Plain-text difficulty curve, one row per wave. */
+export function formatCurve(curve: WaveReport[]): string {
+  const lines = [row('Wave', 'Blue win', 'Duration', 'Blue left')];
+  for (const r of curve) {
+    const blueLeft = Object.values(r.avgSurvivors.blue).reduce((sum, v) => sum + (v ?? 0), 0);
+    lines.push(row(String(r.wave), pct(r.blueWinRate), `${r.avgDuration.toFixed(1)}s`, blueLeft.toFixed(2)));
+  }
+  return lines.join('\n');
+}
+
+/** Parse "soldier:3,sniper:1" into a composition. */
+export function parseComposition(spec: string): Composition {
+  return spec.split(',').filter(Boolean).map(part => {
+    const [type, count = '1'] = part.trim().split(':');
+    const n = Number(count);
+    if (!Object.hasOwn(UNIT_DEFS, type)) throw new Error(`Unknown unit type "${type}"`);
+    if (count.trim() === '' || !Number.isInteger(n) || n < 0) throw new Error(`Bad unit count in "${part}"`);
+    return { type: type as UnitType, count: n };
+  });
+}
+
+function countAlive(units: Unit[], team: Team, composition: Composition): PerType {
+  // Seed every fielded type so wiped-out types still show up as zero
+  const counts: PerType = {};
+  for (const { type } of composition) counts[type] = 0;
+  for (const u of units) {
+    if (u.alive && u.team === team) addTo(counts, u.type, 1);
+  }
+  return counts;
+}
+
+function addTo(map: PerType, type: UnitType, amount: number): void {
+  map[type] = (map[type] ?? 0) + amount;
+}
+
+function pct(rate: number): string {
+  return `${(rate * 100).toFixed(0)}%`;
+}
+
+function row(...cells: string[]): string {
+  return cells.map(c => c.padEnd(10)).join(' ');
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { generateObstacles, generateElevationZones, generateHordeObstacles, generateHordeElevationZones } from './battlefield';
+import { generateObstacles, generateElevationZones, generateTerrainZones, generateCoverBlocks, generateHordeObstacles, generateHordeCoverBlocks, generateHordeElevationZones, generateHordeTerrainZones } from './battlefield';
 import { MAP_WIDTH, MAP_HEIGHT } from './constants';
+import { createRng } from './rng';
 
 describe('generateObstacles', () => {
   it('generates 2-3 obstacles', () => {
@@ -128,6 +129,115 @@ describe('generateHordeObstacles', () => {
   });
 });
 
+describe('generateHordeCoverBlocks', () => {
+  it('places 1-4 narrow cover blocks in the player half (y: 0.35-0.85)', () => {
+    for (let i = 0; i < 20; i++) {
+      const covers = generateHordeCoverBlocks(generateHordeObstacles());
+      expect(covers.length).toBeGreaterThanOrEqual(1);
+      expect(covers.length).toBeLessThanOrEqual(4);
+      for (const c of covers) {
+        expect(Math.min(c.w, c.h)).toBeLessThanOrEqual(12);
+        expect(c.x).toBeGreaterThanOrEqual(50);
+        expect(c.x + c.w).toBeLessThanOrEqual(MAP_WIDTH - 50);
+        expect(c.y).toBeGreaterThanOrEqual(MAP_HEIGHT * 0.35);
+        expect(c.y + c.h).toBeLessThanOrEqual(MAP_HEIGHT * 0.85);
+      }
+    }
+  });
+
+  it('keeps clear of the horde obstacles and each other', () => {
+    const overlaps = (a: { x: number; y: number; w: number; h: number }, b: typeof a) =>
+      a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+    for (let i = 0; i < 20; i++) {
+      const obstacles = generateHordeObstacles();
+      const covers = generateHordeCoverBlocks(obstacles);
+      for (const c of covers) {
+        expect(obstacles.some(o => overlaps(c, o))).toBe(false);
+        expect(covers.some(o => o !== c && overlaps(c, o))).toBe(false);
+      }
+    }
+  });
+});
+
+describe('generateCoverBlocks', () => {
+  it('generates 2-4 cover blocks (always even, mirrored pairs)', () => {
+    for (let i = 0; i < 20; i++) {
+      const covers = generateCoverBlocks();
+      expect(covers.length).toBeGreaterThanOrEqual(2);
+      expect(covers.length).toBeLessThanOrEqual(4);
+      expect(covers.length % 2).toBe(0);
+    }
+  });
+
+  it('cover blocks are narrow (one dimension <= 12)', () => {
+    for (let i = 0; i < 20; i++) {
+      for (const c of generateCoverBlocks()) {
+        expect(Math.min(c.w, c.h)).toBeLessThanOrEqual(12);
+      }
+    }
+  });
+
+  it('cover blocks are symmetrical (mirrored top-bottom)', () => {
+    const covers = generateCoverBlocks();
+    for (const c of covers) {
+      const mirrorCenterY = MAP_HEIGHT - (c.y + c.h / 2);
+      const hasMirror = covers.some(other => other !== c && Math.abs(other.y + other.h / 2 - mirrorCenterY) < 1);
+      expect(hasMirror).toBe(true);
+    }
+  });
+
+  it('cover blocks are within map bounds', () => {
+    for (let i = 0; i < 20; i++) {
+      for (const c of generateCoverBlocks()) {
+        expect(c.x).toBeGreaterThanOrEqual(50);
+        expect(c.x + c.w).toBeLessThanOrEqual(MAP_WIDTH - 50);
+        expect(c.y).toBeGreaterThanOrEqual(0);
+        expect(c.y + c.h).toBeLessThanOrEqual(MAP_HEIGHT);
+      }
+    }
+  });
+});
+
+describe('generateTerrainZones', () => {
+  it('generates mirrored pairs of the same kind', () => {
+    for (let i = 0; i < 20; i++) {
+      const zones = generateTerrainZones();
+      expect(zones.length).toBeGreaterThanOrEqual(2);
+      expect(zones.length).toBeLessThanOrEqual(4);
+      for (let j = 0; j < zones.length; j += 2) {
+        const [a, b] = [zones[j], zones[j + 1]];
+        expect(b.kind).toBe(a.kind);
+        expect(b.x).toBe(a.x);
+        expect(b.y + b.h / 2).toBeCloseTo(MAP_HEIGHT - (a.y + a.h / 2));
+      }
+    }
+  });
+
+  it('stays out of the spawn rows', () => {
+    for (let i = 0; i < 20; i++) {
+      for (const z of generateTerrainZones()) {
+        expect(z.y).toBeGreaterThanOrEqual(MAP_HEIGHT * 0.2);
+        expect(z.y + z.h).toBeLessThanOrEqual(MAP_HEIGHT * 0.8);
+      }
+    }
+  });
+});
+
+describe('generateHordeTerrainZones', () => {
+  it('mirrors each zone left-right inside the player half', () => {
+    for (let i = 0; i < 20; i++) {
+      const zones = generateHordeTerrainZones();
+      for (let j = 0; j < zones.length; j += 2) {
+        const [a, b] = [zones[j], zones[j + 1]];
+        expect(b.kind).toBe(a.kind);
+        expect(b.x + b.w / 2).toBeCloseTo(MAP_WIDTH - (a.x + a.w / 2));
+        expect(a.y).toBeGreaterThanOrEqual(MAP_HEIGHT * 0.35);
+        expect(a.y + a.h).toBeLessThanOrEqual(MAP_HEIGHT * 0.70);
+      }
+    }
+  });
+});
+
 describe('generateHordeElevationZones', () => {
   it('generates 2-4 zones', () => {
     for (let i = 0; i < 20; i++) {
@@ -158,3 +268,24 @@ describe('generateHordeElevationZones', () => {
   });
 });
 
+describe('seeded generation', () => {
+  it('same seed produces the same battlefield', () => {
+    const a = createRng('abc123');
+    const b = createRng('abc123');
+    expect(generateObstacles(a)).toEqual(generateObstacles(b));
+    expect(generateElevationZones(a)).toEqual(generateElevationZones(b));
+    expect(generateHordeObstacles(a)).toEqual(generateHordeObstacles(b));
+    expect(generateHordeElevationZones(a)).toEqual(generateHordeElevationZones(b));
+    expect(generateHordeCoverBlocks([], a)).toEqual(generateHordeCoverBlocks([], b));
+    expect(generateTerrainZones(a)).toEqual(generateTerrainZones(b));
+  });
+
+  it('different seeds produce different battlefields', () => {
+    const layouts = new Set<string>();
+    for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+      const rng = createRng(seed);
+      layouts.add(JSON.stringify([generateObstacles(rng), generateElevationZones(rng)]));
+    }
+    expect(layouts.size).toBeGreaterThan(1);
+  });
+});
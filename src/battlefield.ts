@@ -1,48 +1,50 @@
-import { Obstacle, ElevationZone } from './types';
+import { Obstacle, ElevationZone, TerrainZone, TerrainKind, CoverBlock } from './types';
 import { MAP_WIDTH, MAP_HEIGHT } from './constants';
+import { Rng } from './rng';
+import { destructibleBlock } from './destructible';
 
-function randomInRange(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min)) + min;
+function randomInRange(rng: Rng, min: number, max: number): number {
+  return Math.floor(rng() * (max - min)) + min;
 }
 
 /** Generate 2-3 symmetrical obstacles (smaller) in the middle zone of the map. */
-export function generateObstacles(): Obstacle[] {
+export function generateObstacles(rng: Rng = Math.random): Obstacle[] {
   const obstacles: Obstacle[] = [];
 
-  const pairCount = randomInRange(1, 2); // 1 pair
-  const hasCenter = Math.random() > 0.5;
+  const pairCount = randomInRange(rng, 1, 2); // 1 pair
+  const hasCenter = rng() > 0.5;
 
   for (let i = 0; i < pairCount; i++) {
-    const w = randomInRange(30, 60);
-    const h = randomInRange(30, 60);
-    const x = randomInRange(50, MAP_WIDTH - 50 - w);
-    const y = randomInRange(MAP_HEIGHT * 0.25, MAP_HEIGHT * 0.45 - h);
+    const w = randomInRange(rng, 30, 60);
+    const h = randomInRange(rng, 30, 60);
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+    const y = randomInRange(rng, MAP_HEIGHT * 0.25, MAP_HEIGHT * 0.45 - h);
 
-    obstacles.push({ x, y, w, h });
-    obstacles.push({ x, y: MAP_HEIGHT - y - h, w, h });
+    obstacles.push(destructibleBlock(x, y, w, h));
+    obstacles.push(destructibleBlock(x, MAP_HEIGHT - y - h, w, h));
   }
 
   if (hasCenter || obstacles.length < 3) {
-    const w = randomInRange(30, 60);
-    const h = randomInRange(30, 60);
-    const x = randomInRange(50, MAP_WIDTH - 50 - w);
+    const w = randomInRange(rng, 30, 60);
+    const h = randomInRange(rng, 30, 60);
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
     const y = (MAP_HEIGHT - h) / 2;
-    obstacles.push({ x, y, w, h });
+    obstacles.push(destructibleBlock(x, y, w, h));
   }
 
   return obstacles;
 }
 
 /** Generate 1-2 symmetric pairs of hill zones (2-4 total). */
-export function generateElevationZones(): ElevationZone[] {
+export function generateElevationZones(rng: Rng = Math.random): ElevationZone[] {
   const zones: ElevationZone[] = [];
-  const pairCount = randomInRange(1, 3); // 1 or 2 pairs
+  const pairCount = randomInRange(rng, 1, 3); // 1 or 2 pairs
 
   for (let i = 0; i < pairCount; i++) {
-    const w = randomInRange(80, 160);
-    const h = randomInRange(60, 120);
-    const x = randomInRange(50, MAP_WIDTH - 50 - w);
-    const y = randomInRange(MAP_HEIGHT * 0.25, MAP_HEIGHT * 0.45 - h);
+    const w = randomInRange(rng, 80, 160);
+    const h = randomInRange(rng, 60, 120);
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+    const y = randomInRange(rng, MAP_HEIGHT * 0.25, MAP_HEIGHT * 0.45 - h);
 
     zones.push({ x, y, w, h });
     zones.push({ x, y: MAP_HEIGHT - y - h, w, h });
@@ -51,47 +53,135 @@ export function generateElevationZones(): ElevationZone[] {
   return zones;
 }
 
+/** Generate 1-2 symmetric pairs of narrow cover blocks (2-4 total). */
+export function generateCoverBlocks(rng: Rng = Math.random): CoverBlock[] {
+  const covers: CoverBlock[] = [];
+  const pairCount = randomInRange(rng, 1, 3); // 1 or 2 pairs
+
+  for (let i = 0; i < pairCount; i++) {
+    // Randomly orient: horizontal or vertical
+    const horizontal = rng() > 0.5;
+    const long = randomInRange(rng, 40, 80);
+    const narrow = randomInRange(rng, 8, 12);
+    const w = horizontal ? long : narrow;
+    const h = horizontal ? narrow : long;
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+    const y = randomInRange(rng, MAP_HEIGHT * 0.25, MAP_HEIGHT * 0.45 - h);
+
+    covers.push({ x, y, w, h });
+    covers.push({ x, y: MAP_HEIGHT - y - h, w, h });
+  }
+
+  return covers;
+}
+
+const TERRAIN_KINDS: TerrainKind[] = ['mud', 'water', 'brush'];
+
+/** Generate 1-2 symmetric pairs of mud, water or brush zones (2-4 total). */
+export function generateTerrainZones(rng: Rng = Math.random): TerrainZone[] {
+  const zones: TerrainZone[] = [];
+  const pairCount = randomInRange(rng, 1, 3); // 1 or 2 pairs
+
+  for (let i = 0; i < pairCount; i++) {
+    const kind = TERRAIN_KINDS[randomInRange(rng, 0, TERRAIN_KINDS.length)];
+    const w = randomInRange(rng, 60, 140);
+    const h = randomInRange(rng, 50, 100);
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+    const y = randomInRange(rng, MAP_HEIGHT * 0.2, MAP_HEIGHT * 0.45 - h);
+
+    zones.push({ x, y, w, h, kind });
+    zones.push({ x, y: MAP_HEIGHT - y - h, w, h, kind });
+  }
+
+  return zones;
+}
+
 // --- Horde-specific generators (player-side terrain only) ---
 
 /** Generate 2-4 obstacles in the player's half (y: 0.35–0.85). No mirroring. */
-export function generateHordeObstacles(): Obstacle[] {
+export function generateHordeObstacles(rng: Rng = Math.random): Obstacle[] {
   const obstacles: Obstacle[] = [];
-  const count = randomInRange(2, 5); // 2-4
+  const count = randomInRange(rng, 2, 5); // 2-4
 
   for (let i = 0; i < count; i++) {
-    const w = randomInRange(30, 60);
-    const h = randomInRange(30, 60);
-    const x = randomInRange(50, MAP_WIDTH - 50 - w);
-    const y = randomInRange(MAP_HEIGHT * 0.35, MAP_HEIGHT * 0.85 - h);
-    obstacles.push({ x, y, w, h });
+    const w = randomInRange(rng, 30, 60);
+    const h = randomInRange(rng, 30, 60);
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+    const y = randomInRange(rng, MAP_HEIGHT * 0.35, MAP_HEIGHT * 0.85 - h);
+    obstacles.push(destructibleBlock(x, y, w, h));
   }
 
   return obstacles;
 }
 
+/** Generate 2-4 narrow cover blocks in the player's half (y: 0.35–0.85), clear of `obstacles`. No mirroring. */
+export function generateHordeCoverBlocks(obstacles: Obstacle[], rng: Rng = Math.random): CoverBlock[] {
+  const covers: CoverBlock[] = [];
+  const count = randomInRange(rng, 2, 5); // 2-4
+  const gap = 20; // room to walk between a cover block and anything next to it
+
+  for (let i = 0; i < count; i++) {
+    // A few tries to find a clear spot; a crowded map just gets fewer blocks
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const horizontal = rng() > 0.5;
+      const long = randomInRange(rng, 40, 80);
+      const narrow = randomInRange(rng, 8, 12);
+      const w = horizontal ? long : narrow;
+      const h = horizontal ? narrow : long;
+      const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+      const y = randomInRange(rng, MAP_HEIGHT * 0.35, MAP_HEIGHT * 0.85 - h);
+      const clear = [...obstacles, ...covers].every(o =>
+        x + w + gap <= o.x || o.x + o.w + gap <= x || y + h + gap <= o.y || o.y + o.h + gap <= y);
+      if (!clear) continue;
+      covers.push({ x, y, w, h });
+      break;
+    }
+  }
+
+  return covers;
+}
+
 /** Generate 2-4 elevation zones in the player's half. Always one near spawn. */
-export function generateHordeElevationZones(): ElevationZone[] {
+export function generateHordeElevationZones(rng: Rng = Math.random): ElevationZone[] {
   const zones: ElevationZone[] = [];
 
   // Guaranteed zone near player spawn (bottom area, y: 0.75–0.85)
-  const spawnW = randomInRange(100, 180);
-  const spawnH = randomInRange(60, 80);
-  const spawnX = randomInRange(50, MAP_WIDTH - 50 - spawnW);
+  const spawnW = randomInRange(rng, 100, 180);
+  const spawnH = randomInRange(rng, 60, 80);
+  const spawnX = randomInRange(rng, 50, MAP_WIDTH - 50 - spawnW);
   const spawnYMin = Math.round(MAP_HEIGHT * 0.75);
   const spawnYMax = Math.round(MAP_HEIGHT * 0.85) - spawnH;
-  const spawnY = randomInRange(spawnYMin, Math.max(spawnYMin + 1, spawnYMax));
+  const spawnY = randomInRange(rng, spawnYMin, Math.max(spawnYMin + 1, spawnYMax));
   zones.push({ x: spawnX, y: spawnY, w: spawnW, h: spawnH });
 
   // 1-3 additional zones further up (y: 0.30–0.70)
-  const extra = randomInRange(1, 4); // 1-3
+  const extra = randomInRange(rng, 1, 4); // 1-3
   for (let i = 0; i < extra; i++) {
-    const w = randomInRange(80, 160);
-    const h = randomInRange(60, 120);
-    const x = randomInRange(50, MAP_WIDTH - 50 - w);
-    const y = randomInRange(MAP_HEIGHT * 0.30, MAP_HEIGHT * 0.70 - h);
+    const w = randomInRange(rng, 80, 160);
+    const h = randomInRange(rng, 60, 120);
+    const x = randomInRange(rng, 50, MAP_WIDTH - 50 - w);
+    const y = randomInRange(rng, MAP_HEIGHT * 0.30, MAP_HEIGHT * 0.70 - h);
     zones.push({ x, y, w, h });
   }
 
   return zones;
 }
 
+/** Generate 1-2 left/right mirrored pairs of terrain zones in the player's half (y: 0.35–0.70). */
+export function generateHordeTerrainZones(rng: Rng = Math.random): TerrainZone[] {
+  const zones: TerrainZone[] = [];
+  const pairCount = randomInRange(rng, 1, 3); // 1 or 2 pairs
+
+  for (let i = 0; i < pairCount; i++) {
+    const kind = TERRAIN_KINDS[randomInRange(rng, 0, TERRAIN_KINDS.length)];
+    const w = randomInRange(rng, 60, 120);
+    const h = randomInRange(rng, 50, 90);
+    const x = randomInRange(rng, 50, Math.max(51, MAP_WIDTH / 2 - 20 - w));
+    const y = randomInRange(rng, MAP_HEIGHT * 0.35, MAP_HEIGHT * 0.70 - h);
+
+    zones.push({ x, y, w, h, kind });
+    zones.push({ x: MAP_WIDTH - x - w, y, w, h, kind });
+  }
+
+  return zones;
+}
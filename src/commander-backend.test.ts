@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+vi.mock('@mlc-ai/web-llm', () => ({
+  CreateMLCEngine: vi.fn(),
+}));
+
+import { OpenAiBackend, ScriptedBackend, createBackend, chargeScript } from './commander-backend';
+import { AiCommander } from './ai-commander';
+import { createUnit } from './units';
+import { FakeLlmServer, startFakeLlmServer } from './test/fake-llm-server';
+
+function armies() {
+  return [
+    createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 }),
+    createUnit('red_soldier_1', 'soldier', 'red', { x: 300, y: 100 }),
+    createUnit('blue_soldier_0', 'soldier', 'blue', { x: 200, y: 700 }),
+  ];
+}
+
+describe('OpenAiBackend', () => {
+  let server: FakeLlmServer;
+
+  beforeAll(async () => {
+    // Only orders one of the two red units, so the other has to be backfilled
+    server = await startFakeLlmServer(() => '```json\n{"orders":[{"id":"red_soldier_0","move_to":[120,300],"attack":"blue_soldier_0"}]}\n```');
+  });
+
+  afterAll(() => server.close());
+
+  it('runs the full request, parse and backfill loop against a local server', async () => {
+    const units = armies();
+    const commander = new AiCommander('red', 'rush them', new OpenAiBackend(server.url, 'fake'));
+
+    expect(await commander.init()).toBe(true);
+    const response = await commander.getOrders(units, []);
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].model).toBe('fake');
+    expect(server.requests[0].messages[0].content).toContain('rush them');
+    expect(JSON.parse(server.requests[0].messages[1].content).my_units).toHaveLength(2);
+    expect(response.orders).toHaveLength(2);
+    expect(response.orders[0]).toEqual({ id: 'red_soldier_0', move_to: [120, 300], attack: 'blue_soldier_0' });
+    expect(response.orders[1].id).toBe('red_soldier_1');
+  });
+
+  it('passes the abort signal through to fetch', async () => {
+    const fetchFn = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] })));
+    const backend = new OpenAiBackend('http://llm.test/v1', 'fake', fetchFn);
+    const controller = new AbortController();
+
+    expect(await backend.complete([], 16, controller.signal)).toBe('ok');
+    expect(fetchFn).toHaveBeenCalledWith('http://llm.test/v1/chat/completions', expect.objectContaining({ signal: controller.signal }));
+  });
+
+  it('reports itself unavailable when nothing is listening', async () => {
+    const backend = new OpenAiBackend('http://127.0.0.1:9/v1');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await backend.init()).toBe(false);
+    warn.mockRestore();
+  });
+});
+
+describe('ScriptedBackend', () => {
+  it('charges every unit at its nearest enemy', async () => {
+    const commander = new AiCommander('red', 'anything', new ScriptedBackend());
+    await commander.init();
+
+    const response = await commander.getOrders(armies(), []);
+
+    expect(response.orders).toEqual([
+      { id: 'red_soldier_0', move_to: [200, 700], attack: 'blue_soldier_0' },
+      { id: 'red_soldier_1', move_to: [200, 700], attack: 'blue_soldier_0' },
+    ]);
+  });
+
+  it('answers retry prompts from the original state', () => {
+    const state = JSON.stringify({ my_units: [{ id: 'a', pos: [0, 0] }], enemy_units: [{ id: 'b', pos: [10, 0] }] });
+
+    const reply = chargeScript([
+      { role: 'system', content: 'rules' },
+      { role: 'user', content: state },
+      { role: 'assistant', content: '{}' },
+      { role: 'user', content: 'Your orders had errors: ...' },
+    ]);
+
+    expect(JSON.parse(reply)).toEqual({ orders: [{ id: 'a', move_to: [10, 0], attack: 'b' }] });
+  });
+
+  it('is picked by settings', () => {
+    expect(createBackend({ kind: 'scripted' }).name).toBe('scripted');
+    expect(createBackend({ kind: 'openai', baseUrl: 'http://localhost:11434/v1' }).name).toBe('openai');
+  });
+});
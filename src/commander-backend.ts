@@ -0,0 +1,159 @@
+import { CreateMLCEngine, MLCEngine } from '@mlc-ai/web-llm';
+
+export const DEFAULT_WEBLLM_MODEL = 'SmolLM2-360M-Instruct-q4f32_1-MLC';
+export const DEFAULT_OPENAI_URL = 'http://localhost:8080/v1';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** Something that turns a chat into a reply for AiCommander. */
+export interface CommanderBackend {
+  readonly name: string;
+  /** Get ready to answer; false means the backend can't be used. */
+  init(): Promise<boolean>;
+  /** `signal` aborts when the caller stops waiting; backends should stop work on it. */
+  complete(messages: ChatMessage[], maxTokens: number, signal?: AbortSignal): Promise<string>;
+}
+
+export type BackendKind = 'webllm' | 'openai' | 'scripted';
+
+export interface BackendSettings {
+  kind: BackendKind;
+  /** Model id; each backend has its own default. */
+  model?: string;
+  /** Base URL of an OpenAI-compatible server, up to and including `/v1`. */
+  baseUrl?: string;
+}
+
+// --- WebLLM: in-browser model, one shared engine per model id ---
+
+const engines = new Map<string, MLCEngine>();
+const loading = new Set<string>();
+let onProgress: ((progress: { text: string; progress: number }) => void) | null = null;
+
+export function setProgressCallback(cb: (progress: { text: string; progress: number }) => void): void {
+  onProgress = cb;
+}
+
+export class WebLlmBackend implements CommanderBackend {
+  readonly name = 'webllm';
+  private engine: MLCEngine | null = null;
+
+  constructor(private modelId = DEFAULT_WEBLLM_MODEL) {}
+
+  async init(): Promise<boolean> {
+    const cached = engines.get(this.modelId);
+    if (cached) {
+      this.engine = cached;
+      return true;
+    }
+    if (loading.has(this.modelId)) return false; // loading in progress, caller should wait
+
+    loading.add(this.modelId);
+    try {
+      this.engine = await CreateMLCEngine(this.modelId, {
+        initProgressCallback: (progress) => {
+          onProgress?.({ text: progress.text, progress: progress.progress });
+        },
+      });
+      engines.set(this.modelId, this.engine);
+      return true;
+    } catch (err) {
+      console.warn('WebLLM init failed:', err);
+      return false;
+    } finally {
+      loading.delete(this.modelId);
+    }
+  }
+
+  async complete(messages: ChatMessage[], maxTokens: number, signal?: AbortSignal): Promise<string> {
+    const engine = this.engine;
+    if (!engine) throw new Error('WebLLM engine not initialized');
+    // Otherwise the engine keeps generating and the next request queues behind it
+    const interrupt = () => void engine.interruptGenerate();
+    signal?.addEventListener('abort', interrupt, { once: true });
+    try {
+      const response = await engine.chat.completions.create({ messages, max_tokens: maxTokens });
+      return response.choices[0].message.content ?? '';
+    } finally {
+      signal?.removeEventListener('abort', interrupt);
+    }
+  }
+}
+
+// --- OpenAI-compatible HTTP, e.g. a local llama.cpp or ollama server ---
+
+export class OpenAiBackend implements CommanderBackend {
+  readonly name = 'openai';
+  private baseUrl: string;
+
+  constructor(baseUrl = DEFAULT_OPENAI_URL, private model = 'local', private fetchFn: typeof fetch = (...args) => fetch(...args)) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async init(): Promise<boolean> {
+    try {
+      const res = await this.fetchFn(`${this.baseUrl}/models`);
+      if (res.ok) return true;
+      console.warn(`LLM server at ${this.baseUrl} answered ${res.status}`);
+    } catch (err) {
+      console.warn(`LLM server at ${this.baseUrl} unreachable:`, err);
+    }
+    return false;
+  }
+
+  async complete(messages: ChatMessage[], maxTokens: number, signal?: AbortSignal): Promise<string> {
+    const res = await this.fetchFn(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, messages, max_tokens: maxTokens, temperature: 0 }),
+    });
+    if (!res.ok) throw new Error(`LLM server answered ${res.status}`);
+    const data = await res.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  }
+}
+
+// --- Scripted: deterministic replies, no model at all ---
+
+type Script = (messages: ChatMessage[]) => string;
+
+/** Send every unit at the nearest enemy in the serialized state, attacking it. */
+export const chargeScript: Script = (messages) => {
+  // The state is the first user message; later ones are retry prompts
+  const state = JSON.parse(messages.find(m => m.role === 'user')?.content ?? '{}');
+  const enemies: { id: string; pos: [number, number] }[] = state.enemy_units ?? [];
+  const orders = (state.my_units ?? []).map((u: { id: string; pos: [number, number] }) => {
+    let nearest: (typeof enemies)[number] | null = null;
+    for (const e of enemies) {
+      if (!nearest || Math.hypot(e.pos[0] - u.pos[0], e.pos[1] - u.pos[1]) < Math.hypot(nearest.pos[0] - u.pos[0], nearest.pos[1] - u.pos[1])) nearest = e;
+    }
+    return { id: u.id, move_to: nearest ? nearest.pos : u.pos, attack: nearest?.id ?? null };
+  });
+  return JSON.stringify({ orders });
+};
+
+export class ScriptedBackend implements CommanderBackend {
+  readonly name = 'scripted';
+
+  constructor(private script: Script = chargeScript) {}
+
+  async init(): Promise<boolean> {
+    return true;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    return this.script(messages);
+  }
+}
+
+export function createBackend(settings: BackendSettings): CommanderBackend {
+  switch (settings.kind) {
+    case 'webllm': return new WebLlmBackend(settings.model || undefined);
+    case 'openai': return new OpenAiBackend(settings.baseUrl || undefined, settings.model || undefined);
+    case 'scripted': return new ScriptedBackend();
+  }
+}
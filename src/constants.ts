@@ -1,4 +1,4 @@
-import { UnitStats, UnitType } from './types';
+import { UnitType } from './types';
 
 export let MAP_WIDTH = 1200;
 export let MAP_HEIGHT = 800;
@@ -8,30 +8,47 @@ export function setMapSize(w: number, h: number): void {
   MAP_HEIGHT = h;
 }
 
-export const UNIT_STATS: Record<UnitType, UnitStats> = {
-  soldier: { hp: 60,  speed: 100, damage: 10, range: 120, radius: 10, fireCooldown: 1.0, projectileSpeed: 300, projectileRadius: 5, turnSpeed: 2.5 },
-  blade:   { hp: 80,  speed: 120, damage: 12, range: 25,  radius: 12, fireCooldown: 0.5, projectileSpeed: 600, projectileRadius: 3, turnSpeed: 3.0 },
-  sniper:  { hp: 15,  speed: 70,  damage: 30, range: 300, radius: 7, fireCooldown: 2.5, projectileSpeed: 1200, projectileRadius: 5, turnSpeed: 1.2 },
-  zombie:  { hp: 20,  speed: 55,  damage: 14, range: 20,  radius: 8, fireCooldown: 0.8, projectileSpeed: 300, projectileRadius: 4, turnSpeed: 3.0 },
-  shielder: { hp: 40, speed: 45, damage: 10, range: 20, radius: 11, fireCooldown: 1.0, projectileSpeed: 300, projectileRadius: 4, turnSpeed: 2.0 },
-  bomber:   { hp: 25, speed: 50, damage: 0,  range: 0,  radius: 9,  fireCooldown: 99,  projectileSpeed: 0,   projectileRadius: 0, turnSpeed: 3.0 },
-};
-
 export const ARMY_COMPOSITION: { type: UnitType; count: number }[] = [
   { type: 'soldier', count: 3 },
   { type: 'sniper', count: 1 },
 ];
 
 export const AI_POLL_INTERVAL_MS = 1500;
+export const AI_TIME_BUDGET_MS = 20000; // per round, retries included; the scoring planner covers the rest
+export const AI_OPTIONS_PER_UNIT = 12; // spots per unit handed to team assignment; more spreads better but costs more
+export const AI_CROWD_RADIUS = 60; // teammates planned closer than this get in each other's way
+export const AI_CROWD_PENALTY = 30;
+export const AI_FIRE_LANE_WIDTH = 16; // half-width of the lane between a shooter and its target
+export const AI_CROSSFIRE_PENALTY = 15;
+export const AI_SPREAD_BONUS = 10; // for coming at a target from a different angle than teammates
+export const AI_ROLLOUT_BUDGET_MS = 400; // hard AI search time per round
+export const AI_ROLLOUT_SAMPLES = 12; // random team plans tried after the planner's and a hold
 export const UNIT_ATTACK_COOLDOWN_MS = 1000;
 
 export const ROUND_DURATION_S = 6;
+export const SIM_TICK_RATE = 60; // fixed simulation steps per second
+export const SIM_STEP_S = 1 / SIM_TICK_RATE;
+export const MAX_SIM_STEPS_PER_FRAME = 12; // cap catch-up after a stall
 export const PATH_SAMPLE_DISTANCE = 18;
 export const UNIT_SELECT_RADIUS = 30;
+export const WAYPOINT_PICK_RADIUS = 10;
+export const LONG_PRESS_MS = 450;
+export const FLICK_MS = 200; // strokes off a path end released this soon after they start moving set facing instead of extending
+export const WAYPOINT_WAITS_S = [1, 2, 3]; // long-press cycles through these, then a go marker
+export const FORMATION_SPACING = 30; // gap between neighbouring slots in a group formation
 export const COVER_SCREEN_DURATION_MS = 1500;
 export const ELEVATION_RANGE_BONUS = 0.2;
+export const MUD_SPEED_MULTIPLIER = 0.5;
+export const WATER_SPEED_MULTIPLIER = 0.8;
+export const BRUSH_REVEAL_RADIUS = 80; // enemies closer than this can see into brush
 export const FLANK_ANGLE_THRESHOLD = Math.PI / 3; // 60° half-cone = 120° front
 export const FLANK_DAMAGE_MULTIPLIER = 1.5;
+export const COVER_PROXIMITY = 20; // how close behind a cover block a unit must be to use it
+export const COVER_DAMAGE_REDUCTION = 0.5;
+export const OBSTACLE_HP_PER_AREA = 0.1; // 30x30 block = 90 HP, 60x60 = 360
+export const FOG_VISION_RADIUS = 320; // how far a unit sees in fog-of-war mode
+export const SHELL_EDGE_DAMAGE = 0.3; // fraction of shell damage dealt at the edge of the blast
+export const SHELL_ARC_HEIGHT = 0.3; // drawn peak height as a fraction of flight distance
 export const HORDE_MAX_WAVES = 15;
 export const HORDE_STARTING_ARMY: { type: UnitType; count: number }[] = [
   { type: 'soldier', count: 2 },
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { destructibleBlock, damageObstacle, obstacleStage, obstaclesInBlast } from './destructible';
+import { OBSTACLE_HP_PER_AREA } from './constants';
+
+describe('destructibleBlock', () => {
+  it('scales HP with area', () => {
+    const block = destructibleBlock(0, 0, 40, 20);
+    expect(block.hp).toBe(Math.round(40 * 20 * OBSTACLE_HP_PER_AREA));
+    expect(block.maxHp).toBe(block.hp);
+  });
+});
+
+describe('damageObstacle', () => {
+  it('reports the hit that breaks the block', () => {
+    const block = destructibleBlock(0, 0, 10, 10);
+    expect(damageObstacle(block, 5)).toBe(false);
+    expect(damageObstacle(block, 100)).toBe(true);
+    expect(block.hp).toBe(0);
+    // Already broken
+    expect(damageObstacle(block, 5)).toBe(false);
+  });
+
+  it('leaves blocks without HP alone', () => {
+    const wall = { x: 0, y: 0, w: 10, h: 10 };
+    expect(damageObstacle(wall, 1000)).toBe(false);
+    expect(wall).toEqual({ x: 0, y: 0, w: 10, h: 10 });
+  });
+});
+
+describe('obstacleStage', () => {
+  it('cracks at two thirds and crumbles at one third', () => {
+    const block = destructibleBlock(0, 0, 30, 30);
+    expect(obstacleStage(block)).toBe(0);
+    block.hp = block.maxHp! * 0.5;
+    expect(obstacleStage(block)).toBe(1);
+    block.hp = block.maxHp! * 0.2;
+    expect(obstacleStage(block)).toBe(2);
+  });
+});
+
+describe('obstaclesInBlast', () => {
+  it('picks blocks whose nearest edge is within the radius', () => {
+    const near = destructibleBlock(100, 100, 20, 20);
+    const far = destructibleBlock(300, 300, 20, 20);
+    expect(obstaclesInBlast([near, far], { x: 90, y: 110 }, 15)).toEqual([near]);
+  });
+});
@@ -0,0 +1,34 @@
+import { Obstacle, Vec2 } from './types';
+import { OBSTACLE_HP_PER_AREA } from './constants';
+
+/** A fresh block with HP scaled to its area. */
+export function destructibleBlock(x: number, y: number, w: number, h: number): Obstacle {
+  const hp = Math.round(w * h * OBSTACLE_HP_PER_AREA);
+  return { x, y, w, h, hp, maxHp: hp };
+}
+
+/** Wear a block down. Returns true when this hit breaks it; blocks without HP shrug everything off. */
+export function damageObstacle(o: Obstacle, amount: number): boolean {
+  if (o.hp === undefined || o.hp <= 0) return false;
+  o.hp = Math.max(0, o.hp - amount);
+  return o.hp === 0;
+}
+
+/** 0 = intact, 1 = cracked, 2 = crumbling. */
+export function obstacleStage(o: Obstacle): number {
+  if (o.hp === undefined || !o.maxHp) return 0;
+  const left = o.hp / o.maxHp;
+  if (left > 2 / 3) return 0;
+  return left > 1 / 3 ? 1 : 2;
+}
+
+/** Blocks a blast of `radius` around `pos` reaches. */
+export function obstaclesInBlast(obstacles: Obstacle[], pos: Vec2, radius: number): Obstacle[] {
+  return obstacles.filter(o => {
+    const cx = Math.max(o.x, Math.min(o.x + o.w, pos.x));
+    const cy = Math.max(o.y, Math.min(o.y + o.h, pos.y));
+    const dx = pos.x - cx;
+    const dy = pos.y - cy;
+    return dx * dx + dy * dy <= radius * radius;
+  });
+}
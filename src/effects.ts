@@ -1,5 +1,5 @@
 import { Graphics, Container, Text } from 'pixi.js';
-import { Vec2, Team } from './types';
+import { Vec2, Team, Obstacle } from './types';
 import { Theme, NIGHT_THEME } from './theme';
 
 interface Effect {
@@ -34,6 +34,100 @@ class ImpactBurst implements Effect {
   }
 }
 
+/** Chunk of a broken block that flies out and settles. */
+class DebrisChunk implements Effect {
+  private gfx: Graphics;
+  private age = 0;
+  private readonly duration = 0.5 + Math.random() * 0.3;
+  private vx: number;
+  private vy: number;
+  private readonly size = 2 + Math.random() * 3;
+
+  constructor(container: Container, private x: number, private y: number, angle: number, private color: number) {
+    const speed = 60 + Math.random() * 120;
+    this.vx = Math.cos(angle) * speed;
+    this.vy = Math.sin(angle) * speed;
+    this.gfx = new Graphics();
+    container.addChild(this.gfx);
+  }
+
+  update(dt: number): boolean {
+    this.age += dt;
+    if (this.age >= this.duration) {
+      this.gfx.destroy();
+      return false;
+    }
+    const decay = Math.exp(-6 * dt);
+    this.vx *= decay;
+    this.vy *= decay;
+    this.x += this.vx * dt;
+    this.y += this.vy * dt;
+
+    this.gfx.clear();
+    this.gfx.rect(this.x - this.size / 2, this.y - this.size / 2, this.size, this.size);
+    this.gfx.fill({ color: this.color, alpha: 1 - this.age / this.duration });
+    return true;
+  }
+}
+
+/** Filled flash that expands to the blast radius of a landed shell. */
+class ShellBlastEffect implements Effect {
+  private gfx: Graphics;
+  private age = 0;
+  private readonly duration = 0.4;
+
+  constructor(container: Container, private pos: Vec2, private radius: number, private color: number) {
+    this.gfx = new Graphics();
+    container.addChild(this.gfx);
+  }
+
+  update(dt: number): boolean {
+    this.age += dt;
+    if (this.age >= this.duration) {
+      this.gfx.destroy();
+      return false;
+    }
+    const t = this.age / this.duration;
+    const radius = this.radius * (0.4 + 0.6 * t);
+
+    this.gfx.clear();
+    this.gfx.circle(this.pos.x, this.pos.y, radius);
+    this.gfx.fill({ color: this.color, alpha: 0.35 * (1 - t) });
+    this.gfx.circle(this.pos.x, this.pos.y, radius);
+    this.gfx.stroke({ width: 2, color: this.color, alpha: 1 - t });
+    return true;
+  }
+}
+
+/** Small plus that floats up off a healed unit. */
+class HealPulse implements Effect {
+  private gfx: Graphics;
+  private age = 0;
+  private readonly duration = 0.6;
+
+  constructor(container: Container, private pos: Vec2, private color: number) {
+    this.gfx = new Graphics();
+    container.addChild(this.gfx);
+  }
+
+  update(dt: number): boolean {
+    this.age += dt;
+    if (this.age >= this.duration) {
+      this.gfx.destroy();
+      return false;
+    }
+    const t = this.age / this.duration;
+    const y = this.pos.y - 10 - t * 16;
+    const arm = 4;
+
+    this.gfx.clear();
+    this.gfx.rect(this.pos.x - arm, y - 1, arm * 2, 2);
+    this.gfx.rect(this.pos.x - 1, y - arm, 2, arm * 2);
+    this.gfx.fill({ color: this.color, alpha: 1 - t });
+    return true;
+  }
+}
+
 class DeathEffect implements Effect {
   private gfx: Graphics;
   private age = 0;
@@ -277,6 +371,28 @@ export class EffectsManager {
     this.effects.push(new ImpactBurst(this.container, pos, color));
   }
 
+  /** Burst of chunks from a block that just broke. */
+  addDebris(block: Obstacle): void {
+    const cx = block.x + block.w / 2;
+    const cy = block.y + block.h / 2;
+    const count = 8 + Math.floor((block.w * block.h) / 300);
+    for (let i = 0; i < count; i++) {
+      const x = block.x + Math.random() * block.w;
+      const y = block.y + Math.random() * block.h;
+      const angle = Math.atan2(y - cy, x - cx) + (Math.random() - 0.5) * 0.6;
+      this.effects.push(new DebrisChunk(this.container, x, y, angle, this.theme.obstacleBorder));
+    }
+  }
+
+  addShellBlast(pos: Vec2, radius: number, team: Team): void {
+    const color = team === 'blue' ? this.theme.blueImpact : this.theme.redImpact;
+    this.effects.push(new ShellBlastEffect(this.container, pos, radius, color));
+  }
+
+  addHealPulse(pos: Vec2): void {
+    this.effects.push(new HealPulse(this.container, pos, this.theme.medic));
+  }
+
   addDeathEffect(pos: Vec2, radius: number, team: Team): void {
     const color = team === 'blue' ? this.theme.blue : this.theme.red;
     this.effects.push(new DeathEffect(this.container, pos, radius, color));
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { FogOfWar, isSpotted } from './fog';
+import { createUnit } from './units';
+import { BattleSimulation } from './simulation';
+import { FOG_VISION_RADIUS, BRUSH_REVEAL_RADIUS, SIM_STEP_S } from './constants';
+import { Obstacle, TerrainZone } from './types';
+
+describe('isSpotted', () => {
+  const scout = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 400 });
+
+  it('needs a friendly within vision radius', () => {
+    expect(isSpotted({ x: 100 + FOG_VISION_RADIUS - 20, y: 400 }, 10, 'blue', [scout], [])).toBe(true);
+    expect(isSpotted({ x: 100 + FOG_VISION_RADIUS + 40, y: 400 }, 10, 'blue', [scout], [])).toBe(false);
+  });
+
+  it('is blocked by obstacles', () => {
+    const wall: Obstacle = { x: 180, y: 350, w: 20, h: 100 };
+    expect(isSpotted({ x: 250, y: 400 }, 10, 'blue', [scout], [wall])).toBe(false);
+  });
+
+  it('cannot see into brush from afar', () => {
+    const brush: TerrainZone = { x: 200, y: 350, w: 100, h: 100, kind: 'brush' };
+    expect(isSpotted({ x: 250, y: 400 }, 10, 'blue', [scout], [], [brush])).toBe(false);
+    const close = createUnit('blue_soldier_1', 'soldier', 'blue', { x: 250 - BRUSH_REVEAL_RADIUS + 10, y: 400 });
+    expect(isSpotted({ x: 250, y: 400 }, 10, 'blue', [close], [], [brush])).toBe(true);
+  });
+
+  it('ignores dead and enemy spotters', () => {
+    const dead = createUnit('blue_soldier_1', 'soldier', 'blue', { x: 240, y: 400 });
+    dead.alive = false;
+    const enemy = createUnit('red_soldier_0', 'soldier', 'red', { x: 260, y: 400 });
+    expect(isSpotted({ x: 250, y: 400 }, 10, 'blue', [dead, enemy], [])).toBe(false);
+  });
+});
+
+describe('FogOfWar', () => {
+  it('only shows enemies in sight and always shows own units', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const near = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 500 });
+    const far = createUnit('red_soldier_1', 'soldier', 'red', { x: 1000, y: 100 });
+    const fog = new FogOfWar('blue');
+    fog.update([blue, near, far], []);
+
+    expect(fog.isVisible(blue)).toBe(true);
+    expect(fog.isVisible(near)).toBe(true);
+    expect(fog.isVisible(far)).toBe(false);
+    expect(fog.knownEnemies([blue, near, far]).map(u => u.id)).toEqual(['red_soldier_0']);
+  });
+
+  it('leaves a ghost at the last-seen position', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 500 });
+    const fog = new FogOfWar('blue');
+    fog.update([blue, red], []);
+
+    // Blue walks away, red slips off somewhere else
+    blue.pos = { x: 1100, y: 700 };
+    red.pos = { x: 100, y: 100 };
+    fog.update([blue, red], []);
+
+    expect(fog.isVisible(red)).toBe(false);
+    const [ghost] = fog.ghosts();
+    expect(ghost.id).toBe(red.id);
+    expect(ghost.pos).toEqual({ x: 100, y: 500 });
+    expect(fog.knownEnemies([blue, red])[0].pos).toEqual({ x: 100, y: 500 });
+  });
+
+  it('clears ghosts once their spot is in view again', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 500 });
+    const fog = new FogOfWar('blue');
+    fog.update([blue, red], []);
+    red.pos = { x: 1100, y: 100 };
+    blue.pos = { x: 1100, y: 700 };
+    fog.update([blue, red], []);
+    expect(fog.ghosts()).toHaveLength(1);
+
+    blue.pos = { x: 100, y: 650 };
+    fog.update([blue, red], []);
+    expect(fog.ghosts()).toHaveLength(0);
+  });
+
+  it('forgets dead enemies', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 500 });
+    const fog = new FogOfWar('blue');
+    fog.update([blue, red], []);
+    red.alive = false;
+    fog.update([blue, red], []);
+    expect(fog.knownEnemies([blue, red])).toEqual([]);
+  });
+
+  it('keeps a hidden shooter dark until its shot flies into sight', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const sniper = createUnit('red_sniper_0', 'sniper', 'red', { x: 100, y: 450 });
+    sniper.gunAngle = Math.PI / 2;
+    const brush: TerrainZone = { x: 50, y: 350, w: 100, h: 150, kind: 'brush' };
+    const sim = new BattleSimulation({ units: [blue, sniper], obstacles: [], elevationZones: [], terrainZones: [brush] });
+    sim.startRound();
+    const fog = new FogOfWar('blue');
+
+    let fired = false;
+    for (let i = 0; i < 200 && !fired; i++) fired = sim.step(SIM_STEP_S).some(e => e.type === 'fire' && e.unitId === sniper.id);
+    fog.update(sim.units, sim.obstacles, sim.terrainZones);
+
+    expect(fired).toBe(true);
+    expect(fog.isVisible(sniper)).toBe(false);
+    expect(sim.projectiles.filter(p => fog.seesPoint(p.pos))).toEqual([]);
+
+    while (sim.projectiles.length > 0 && sim.projectiles[0].pos.y < 550) sim.step(SIM_STEP_S);
+    fog.update(sim.units, sim.obstacles, sim.terrainZones);
+    expect(sim.projectiles.some(p => fog.seesPoint(p.pos))).toBe(true);
+  });
+});
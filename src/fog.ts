@@ -0,0 +1,89 @@
+import { Unit, Team, Obstacle, Vec2, TerrainZone } from './types';
+import { FOG_VISION_RADIUS } from './constants';
+import { hasLineOfSight } from './units';
+import { isConcealed } from './terrain';
+
+/** True when any alive unit on `team` is close enough to `pos`, has a clear line to it and isn't kept out by brush. */
+export function isSpotted(pos: Vec2, radius: number, team: Team, units: Unit[], obstacles: Obstacle[], terrainZones: TerrainZone[] = []): boolean {
+  return units.some(f => {
+    if (!f.alive || f.team !== team) return false;
+    const dx = f.pos.x - pos.x;
+    const dy = f.pos.y - pos.y;
+    const reach = FOG_VISION_RADIUS + radius;
+    return dx * dx + dy * dy <= reach * reach
+      && hasLineOfSight(f.pos, pos, obstacles)
+      && !isConcealed(pos, f.pos, terrainZones);
+  });
+}
+
+/**
+ * What one team knows about the other. Enemies in sight are tracked live;
+ * once they drop out of sight they leave a ghost where they were last seen.
+ */
+export class FogOfWar {
+  readonly team: Team;
+  private visibleIds = new Set<string>();
+  private lastKnown = new Map<string, Unit>();
+  /** The battlefield as of the last update, for spotting things that aren't units. */
+  private sight: { units: Unit[]; obstacles: Obstacle[]; terrainZones: TerrainZone[] } = { units: [], obstacles: [], terrainZones: [] };
+
+  constructor(team: Team) {
+    this.team = team;
+  }
+
+  /** Recompute sight. Call whenever units have moved. */
+  update(units: Unit[], obstacles: Obstacle[], terrainZones: TerrainZone[] = []): void {
+    this.visibleIds.clear();
+    this.sight = { units, obstacles, terrainZones };
+    for (const u of units) {
+      if (u.team === this.team) continue;
+      if (!u.alive) {
+        this.lastKnown.delete(u.id);
+        continue;
+      }
+      if (isSpotted(u.pos, u.radius, this.team, units, obstacles, terrainZones)) {
+        this.visibleIds.add(u.id);
+        this.lastKnown.set(u.id, snapshot(u));
+      }
+    }
+
+    // Forget ghosts whose spot is in view again but empty
+    for (const [id, ghost] of this.lastKnown) {
+      if (this.visibleIds.has(id)) continue;
+      if (isSpotted(ghost.pos, ghost.radius, this.team, units, obstacles, terrainZones)) this.lastKnown.delete(id);
+    }
+  }
+
+  /** Own units are always visible; enemies only while in sight. */
+  isVisible(unit: Unit): boolean {
+    return unit.team === this.team || this.visibleIds.has(unit.id);
+  }
+
+  /** Whether a point is in sight right now, e.g. a projectile in flight. */
+  seesPoint(pos: Vec2): boolean {
+    return isSpotted(pos, 0, this.team, this.sight.units, this.sight.obstacles, this.sight.terrainZones);
+  }
+
+  /** Last-known copies of enemies currently out of sight. */
+  ghosts(): Unit[] {
+    return [...this.lastKnown.values()].filter(g => !this.visibleIds.has(g.id));
+  }
+
+  /** Everything this team may plan against: live enemies in sight plus ghosts. */
+  knownEnemies(units: Unit[]): Unit[] {
+    const visible = units.filter(u => u.alive && u.team !== this.team && this.visibleIds.has(u.id));
+    return [...visible, ...this.ghosts()];
+  }
+}
+
+/** Frozen copy so a ghost keeps its last-seen pose while the real unit moves on. */
+function snapshot(u: Unit): Unit {
+  return {
+    ...u,
+    pos: { ...u.pos },
+    vel: { x: 0, y: 0 },
+    waypoints: [],
+    moveTarget: null,
+    statusEffects: undefined,
+  };
+}
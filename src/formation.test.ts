@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { formationOffsets, formationPaths, groupCentre } from './formation';
+import { createUnit, segmentHitsRect } from './units';
+import { MAP_WIDTH } from './constants';
+
+describe('formationOffsets', () => {
+  it('centres a line across the direction of travel', () => {
+    expect(formationOffsets('line', 3, 30)).toEqual([{ x: -30, y: 0 }, { x: 0, y: 0 }, { x: 30, y: 0 }]);
+  });
+
+  it('files a column back from the front', () => {
+    const column = formationOffsets('column', 3, 30);
+    expect(column.map(o => o.x)).toEqual([0, 0, 0]);
+    expect(column.map(o => Math.abs(o.y))).toEqual([0, 30, 60]);
+  });
+
+  it('fans a wedge back from its tip', () => {
+    const [tip, left, right] = formationOffsets('wedge', 3, 30);
+    expect(Math.abs(tip.x) + Math.abs(tip.y)).toBe(0);
+    expect(left).toEqual({ x: -30, y: -30 });
+    expect(right).toEqual({ x: 30, y: -30 });
+  });
+});
+
+describe('formationPaths', () => {
+  // Three soldiers side by side, heading north (up the screen)
+  const west = createUnit('a', 'soldier', 'blue', { x: 270, y: 600 });
+  const mid = createUnit('b', 'soldier', 'blue', { x: 300, y: 600 });
+  const east = createUnit('c', 'soldier', 'blue', { x: 330, y: 600 });
+  const members = [east, west, mid];
+
+  it('moves each member through its own slot, keeping left-to-right order', () => {
+    const start = groupCentre(members);
+    const [e, w, m] = formationPaths(members, start, [{ x: 300, y: 500 }, { x: 300, y: 400 }], 'line');
+
+    expect(m[m.length - 1]).toEqual({ x: 300, y: 400 });
+    // Heading north, "right" is east
+    expect(w[w.length - 1].x).toBeCloseTo(270);
+    expect(e[e.length - 1].x).toBeCloseTo(330);
+  });
+
+  it('carries wait and go markers onto every member', () => {
+    const paths = formationPaths(members, groupCentre(members), [{ x: 300, y: 500, wait: 2 }, { x: 300, y: 400, sync: true }], 'column');
+
+    for (const p of paths) {
+      expect(p.some(wp => wp.wait === 2)).toBe(true);
+      expect(p[p.length - 1].sync).toBe(true);
+    }
+  });
+
+  it('clamps slots to the map', () => {
+    const paths = formationPaths(members, groupCentre(members), [{ x: MAP_WIDTH - 5, y: 500 }], 'line');
+
+    for (const p of paths) {
+      for (const wp of p) expect(wp.x).toBeLessThanOrEqual(MAP_WIDTH - 10);
+    }
+  });
+
+  it('routes members around blocks', () => {
+    const wall = { x: 250, y: 480, w: 100, h: 20 };
+    const paths = formationPaths(members, groupCentre(members), [{ x: 300, y: 400 }], 'line', [wall]);
+
+    paths.forEach((p, i) => {
+      let prev = members[i].pos;
+      for (const wp of p) {
+        expect(segmentHitsRect(prev, wp, wall, members[i].radius)).toBe(false);
+        prev = wp;
+      }
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Unit, Vec2, Waypoint, Obstacle } from './types';
+import { MAP_WIDTH, MAP_HEIGHT, FORMATION_SPACING } from './constants';
+import { detourPath } from './units';
+
+export type Formation = 'line' | 'wedge' | 'column';
+
+export const FORMATIONS: Formation[] = ['line', 'wedge', 'column'];
+
+/**
+ * Slot offsets for `count` units relative to the point the group path runs through.
+ * `x` is to the right of the direction of travel, `y` is forward.
+ */
+export function formationOffsets(formation: Formation, count: number, spacing = FORMATION_SPACING): Vec2[] {
+  const offsets: Vec2[] = [];
+  for (let i = 0; i < count; i++) {
+    if (formation === 'line') {
+      offsets.push({ x: (i - (count - 1) / 2) * spacing, y: 0 });
+    } else if (formation === 'column') {
+      offsets.push({ x: 0, y: -i * spacing });
+    } else {
+      // Wedge: tip on the path, ranks fanning back alternately left and right
+      const rank = Math.ceil(i / 2);
+      const side = i % 2 === 1 ? -1 : 1;
+      offsets.push({ x: side * rank * spacing, y: -rank * spacing });
+    }
+  }
+  return offsets;
+}
+
+/** Heading at each node of the path, smoothed over its neighbours so hand-drawn wobble doesn't swing the ranks. */
+function nodeHeadings(start: Vec2, path: Vec2[]): number[] {
+  const pts = [start, ...path];
+  const headings: number[] = [];
+  let last = 0;
+  for (let i = 1; i < pts.length; i++) {
+    const from = pts[i - 1];
+    const to = pts[Math.min(i + 1, pts.length - 1)];
+    if (from.x !== to.x || from.y !== to.y) last = Math.atan2(to.y - from.y, to.x - from.x);
+    headings.push(last);
+  }
+  return headings;
+}
+
+/**
+ * Spread one path drawn from the group's centre into a path per member, holding each in its formation slot.
+ * Members keep their left-to-right (or front-to-back, for a column) order so paths don't cross.
+ * Returned paths line up with `members`, stay on the map and are routed around `blocks`.
+ */
+export function formationPaths(members: Unit[], start: Vec2, path: Waypoint[], formation: Formation, blocks: Obstacle[] = []): Waypoint[][] {
+  if (path.length === 0) return members.map(() => []);
+  const headings = nodeHeadings(start, path);
+
+  // Match members to slots by where they stand relative to the first heading
+  const h0 = headings[0];
+  const right = { x: -Math.sin(h0), y: Math.cos(h0) };
+  const forward = { x: Math.cos(h0), y: Math.sin(h0) };
+  const memberKey = (u: Unit) => formation === 'column'
+    ? -((u.pos.x - start.x) * forward.x + (u.pos.y - start.y) * forward.y)
+    : (u.pos.x - start.x) * right.x + (u.pos.y - start.y) * right.y;
+  const offsets = formationOffsets(formation, members.length);
+  const slotKey = (o: Vec2) => formation === 'column' ? -o.y : o.x;
+  const slots = offsets.map((_, i) => i).sort((a, b) => slotKey(offsets[a]) - slotKey(offsets[b]));
+  const order = members.map((_, i) => i).sort((a, b) => memberKey(members[a]) - memberKey(members[b]));
+  const slotOf: number[] = [];
+  order.forEach((m, rank) => { slotOf[m] = slots[rank]; });
+
+  return members.map((unit, m) => {
+    const off = offsets[slotOf[m]];
+    const own = path.map((node, i) => {
+      const h = headings[i];
+      const x = node.x - Math.sin(h) * off.x + Math.cos(h) * off.y;
+      const y = node.y + Math.cos(h) * off.x + Math.sin(h) * off.y;
+      return {
+        ...node,
+        x: Math.max(unit.radius, Math.min(MAP_WIDTH - unit.radius, x)),
+        y: Math.max(unit.radius, Math.min(MAP_HEIGHT - unit.radius, y)),
+      };
+    });
+    return detourPath(unit.pos, own, blocks, unit.radius);
+  });
+}
+
+/** Middle of the group, where a formation stroke starts. */
+export function groupCentre(members: Unit[]): Vec2 {
+  const n = Math.max(members.length, 1);
+  return {
+    x: members.reduce((sum, u) => sum + u.pos.x, 0) / n,
+    y: members.reduce((sum, u) => sum + u.pos.y, 0) / n,
+  };
+}
@@ -1,10 +1,18 @@
-import { Unit, Obstacle, Team, BattleResult, Projectile, TurnPhase, ElevationZone, UnitType, ReplayFrame, ReplayEvent, ReplayData } from './types';
-import { ARMY_COMPOSITION, ROUND_DURATION_S, COVER_SCREEN_DURATION_MS, MAP_WIDTH, MAP_HEIGHT } from './constants';
-import { createArmy, createMissionArmy, moveUnit, separateUnits, findTarget, isInRange, hasLineOfSight, tryFireProjectile, updateProjectiles, advanceWaypoint, updateGunAngle, detourWaypoints, segmentHitsRect, bladeAoeAttack, bomberExplode } from './units';
-import { generateObstacles, generateElevationZones } from './battlefield';
+import { Unit, Obstacle, Team, BattleResult, Projectile, TurnPhase, BattleMap, UnitType, ReplayFrame, ReplayEvent, ReplayData } from './types';
+import { ARMY_COMPOSITION, COVER_SCREEN_DURATION_MS, MAP_WIDTH, MAP_HEIGHT, SIM_TICK_RATE, SIM_STEP_S, MAX_SIM_STEPS_PER_FRAME } from './constants';
+import { createArmy, createMissionArmy } from './units';
+import { generateObstacles, generateElevationZones, generateTerrainZones, generateCoverBlocks } from './battlefield';
 import { PathDrawer } from './path-drawer';
+import { Formation } from './formation';
+import { PlanSnapshot, IntelPath, stashPlan, restorePlan, captureIntel } from './path-history';
 import { Renderer } from './renderer';
-import { scorePosition, generateCandidates } from './ai-scoring';
+import { generateAiPaths } from './ai-planner';
+import { generateRolloutPaths } from './ai-rollout';
+import { AiCommander, applyAiOrders } from './ai-commander';
+import { BattleSimulation, FireEvent, HitEvent, BlastEvent, ObstacleEvent, HealEvent, StatusEvent, RoundEndEvent, BattleEndEvent } from './simulation';
+import { createRng, randomSeed } from './rng';
+import { FogOfWar } from './fog';
+import { obstacleStage } from './destructible';
 
 export type GameEventCallback = (
   event: 'update' | 'end' | 'phase-change' | 'wave-clear',
@@ -12,33 +20,38 @@ export type GameEventCallback = (
 ) => void;
 
 export class GameEngine {
-  private units: Unit[] = [];
-  private obstacles: Obstacle[] = [];
-  private elevationZones: ElevationZone[] = [];
-  private projectiles: Projectile[] = [];
+  private sim = new BattleSimulation({ units: [], obstacles: [], elevationZones: [] });
   private renderer: Renderer;
   private running = false;
   private speedMultiplier = 1;
-  private elapsedTime = 0;
-  private roundTimer = 0;
+  private stepAccumulator = 0;
+  private prevPoses: Map<string, { x: number; y: number; angle: number }> = new Map();
   private onEvent: GameEventCallback;
   private pathDrawer: PathDrawer | null = null;
   private _phase: TurnPhase = 'blue-planning';
   private roundNumber = 1;
   private aiMode = false;
-  private idleTime = 0;
   private oneShotEnabled = false;
   private bloodEnabled = true;
   private endingBattle = false;
   private endDelayTimer = 0;
   private pendingWinner: Team | null = null;
   private hordeMode = false;
-  private hordeStartDelay = 0;
   private hordeBlueUnits: Unit[] | null = null;
   private hordeRedArmy: { type: UnitType; count: number }[] | null = null;
-  private hordeMap: { obstacles: Obstacle[]; elevationZones: ElevationZone[] } | null = null;
+  private hordeMap: BattleMap | null = null;
   private replayFrames: ReplayFrame[] = [];
   private replayEvents: ReplayEvent[] = [];
+  private replayObstacles: Obstacle[] = [];
+  private terrainDirty = false;
+  private mapSeed: string;
+  private fog: Record<Team, FogOfWar> | null = null;
+  /** Finished plans held off the units until play starts, so the next planner can't see them. */
+  private stashedPlans: PlanSnapshot[] = [];
+  private intelEnabled = false;
+  private lastPaths: Record<Team, IntelPath[]> = { blue: [], red: [] };
+  private commander: AiCommander | null = null;
+  private hardAi = false;
 
   constructor(renderer: Renderer, onEvent: GameEventCallback, opts?: {
     aiMode?: boolean;
@@ -47,7 +60,17 @@ export class GameEngine {
     horde?: boolean;
     hordeBlueUnits?: Unit[];
     hordeRedArmy?: { type: UnitType; count: number }[];
-    hordeMap?: { obstacles: Obstacle[]; elevationZones: ElevationZone[] };
+    hordeMap?: BattleMap;
+    /** Seed for map generation; a fresh one is rolled when omitted. */
+    seed?: string;
+    /** Each side only sees enemies its units have line of sight to. */
+    fog?: boolean;
+    /** Show each planner the opponent's paths from the previous round. */
+    intel?: boolean;
+    /** Language-model commander that plans red in AI mode instead of the scoring planner. */
+    commander?: AiCommander;
+    /** Red plans by rolling candidate plans forward in the simulation instead of scoring end points. */
+    hardAi?: boolean;
   }) {
     this.renderer = renderer;
     this.onEvent = onEvent;
@@ -58,6 +81,11 @@ export class GameEngine {
     this.hordeBlueUnits = opts?.hordeBlueUnits ?? null;
     this.hordeRedArmy = opts?.hordeRedArmy ?? null;
     this.hordeMap = opts?.hordeMap ?? null;
+    this.mapSeed = opts?.seed ?? randomSeed();
+    this.intelEnabled = opts?.intel ?? false;
+    this.commander = opts?.commander ?? null;
+    this.hardAi = opts?.hardAi ?? false;
+    if (opts?.fog) this.fog = { blue: new FogOfWar('blue'), red: new FogOfWar('red') };
   }
 
   get phase(): TurnPhase {
@@ -68,15 +96,14 @@ export class GameEngine {
     this.renderer.bloodEnabled = this.bloodEnabled;
 
     // Load map before spawning units so we can avoid placing them inside blocks
-    if (this.hordeMap) {
-      this.obstacles = this.hordeMap.obstacles;
-      this.elevationZones = this.hordeMap.elevationZones;
-    } else {
-      this.obstacles = generateObstacles();
-      this.elevationZones = generateElevationZones();
-    }
+    const rng = createRng(this.mapSeed);
+    const obstacles = this.hordeMap ? this.hordeMap.obstacles : generateObstacles(rng);
+    const elevationZones = this.hordeMap ? this.hordeMap.elevationZones : generateElevationZones(rng);
+    const terrainZones = this.hordeMap ? this.hordeMap.terrainZones : generateTerrainZones(rng);
+    const coverBlocks = this.hordeMap ? this.hordeMap.coverBlocks : generateCoverBlocks(rng);
 
-    const allBlocks = this.obstacles;
+    const allBlocks = [...obstacles, ...coverBlocks];
+    let units: Unit[];
 
     if (this.hordeMode && this.hordeBlueUnits && this.hordeRedArmy) {
       // Horde mode: use pre-created blue units + spawn wave enemies
@@ -86,28 +113,31 @@ export class GameEngine {
       for (const u of redUnits) {
         u.id = u.id.replace('red_', `red_${waveTag}_`);
       }
-      this.units = [...this.hordeBlueUnits, ...redUnits];
+      units = [...this.hordeBlueUnits, ...redUnits];
     } else {
-      this.units = [...createArmy('blue'), ...createArmy('red')];
+      units = [...createArmy('blue'), ...createArmy('red')];
     }
     // One-shot mode: set all damage to 9999
     if (this.oneShotEnabled) {
-      for (const unit of this.units) {
+      for (const unit of units) {
         unit.damage = 9999;
       }
     }
-    this.projectiles = [];
-    this.elapsedTime = 0;
-    this.roundTimer = 0;
+    // Keep drawing from the map stream so a seed also fixes zombie wobble
+    this.sim = new BattleSimulation({ units, obstacles, elevationZones, terrainZones, coverBlocks, rng });
+    this.replayObstacles = obstacles.map(o => ({ ...o }));
     this.running = true;
 
     this.pathDrawer = new PathDrawer(this.renderer.stage, this.renderer.canvas, (pos) => this.renderer.highlightZonesAt(pos));
     this.pathDrawer.theme = this.renderer.currentTheme;
 
-    // Render initial state — hills under obstacles
-    this.renderer.renderElevationZones(this.elevationZones);
-    this.renderer.renderObstacles(this.obstacles);
-    this.renderer.renderUnits(this.units);
+    // Render initial state — hills and terrain under obstacles
+    this.renderer.renderElevationZones(elevationZones);
+    this.renderer.renderTerrainZones(terrainZones);
+    this.renderer.renderObstacles(obstacles);
+    this.renderer.renderCoverBlocks(coverBlocks);
+    this.updateFog();
+    this.renderUnits(0);
 
     // Start ticker for rendering during planning
     this.renderer.ticker.add(this.tick, this);
@@ -132,6 +162,20 @@ export class GameEngine {
     }
   }
 
+  /** Undo/redo the planning team's last path edit. */
+  undoPlan(): void {
+    this.pathDrawer?.undo();
+  }
+
+  redoPlan(): void {
+    this.pathDrawer?.redo();
+  }
+
+  /** Switch the formation used by group paths; returns the new one. */
+  cycleFormation(): Formation | undefined {
+    return this.pathDrawer?.cycleFormation();
+  }
+
   /** Skip the cover screen early (e.g. on tap). */
   skipCover(): void {
     if (this._phase !== 'cover') return;
@@ -144,96 +188,113 @@ export class GameEngine {
 
   private setPhase(phase: TurnPhase): void {
     this._phase = phase;
+    this.updateFog();
 
     if (phase === 'blue-planning') {
       this.pathDrawer?.clearPaths('blue');
-      if (this.hordeMode) this.generateAiPaths();
-      this.pathDrawer?.enable('blue', this.units, this.elevationZones);
+      if (this.hordeMode) {
+        this.planRed();
+        this.stashedPlans.push(stashPlan(this.sim.units, 'red'));
+      }
+      this.setPathVisibility('blue');
+      this.pathDrawer?.enable('blue', this.sim.units, this.sim.elevationZones, this.sim.terrainZones, [...this.sim.obstacles, ...this.sim.coverBlocks]);
     } else if (phase === 'cover') {
       this.pathDrawer?.disable();
+      this.stashedPlans.push(stashPlan(this.sim.units, 'blue'));
       if (this.aiMode) {
         // Skip cover screen, generate AI paths, go straight to playing
+        this.onEvent('phase-change', { phase, round: this.roundNumber });
+        if (this.commander && !this.hordeMode) {
+          void this.commandRed();
+          return;
+        }
         if (!this.hordeMode) {
-          this.generateAiPaths();
+          this.planRed();
         }
-        this.onEvent('phase-change', { phase, round: this.roundNumber });
         this.setPhase('playing');
         return;
       }
     } else if (phase === 'red-planning') {
       this.pathDrawer?.clearPaths('red');
-      this.pathDrawer?.enable('red', this.units, this.elevationZones);
+      this.setPathVisibility('red');
+      this.pathDrawer?.enable('red', this.sim.units, this.sim.elevationZones, this.sim.terrainZones, [...this.sim.obstacles, ...this.sim.coverBlocks]);
     } else if (phase === 'playing') {
       this.pathDrawer?.disable();
       this.pathDrawer?.clearGraphics();
-      this.roundTimer = ROUND_DURATION_S;
-      this.idleTime = 0;
+      for (const plan of this.stashedPlans) restorePlan(this.sim.units, plan);
+      this.stashedPlans = [];
+      this.lastPaths = { blue: captureIntel(this.sim.units, 'blue'), red: captureIntel(this.sim.units, 'red') };
+      this.sim.startRound();
+      this.stepAccumulator = 0;
       this.renderer.effects?.addRoundStartFlash(MAP_WIDTH, MAP_HEIGHT);
     }
 
     this.onEvent('phase-change', { phase, round: this.roundNumber });
   }
 
-  /** Generate AI paths for red units using position-scoring system. */
-  private generateAiPaths(): void {
-    const allBlockers = this.obstacles;
-    const redUnits = this.units.filter(u => u.alive && u.team === 'red');
-    const enemies = this.units.filter(u => u.alive && u.team === 'blue');
-
-    const candidates = generateCandidates(
-      redUnits[0] ?? { pos: { x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 }, speed: 100, radius: 10 } as Unit,
-      this.obstacles,
-      this.elevationZones,
-    );
-
-    for (const unit of redUnits) {
-      // Zombies, shielders, and bombers don't use AI planning — they chase in real-time
-      if (unit.type === 'zombie' || unit.type === 'shielder' || unit.type === 'bomber') continue;
-      const margin = 8;
-      const padding = unit.radius + margin;
-
-      // Score each candidate, then verify the full path is navigable
-      const scored: { pos: typeof unit.pos; score: number }[] = [];
-      for (const candidate of candidates) {
-        const s = scorePosition({
-          candidate,
-          unit,
-          enemies,
-          obstacles: this.obstacles,
-          elevationZones: this.elevationZones,
-        });
-        scored.push({ pos: candidate, score: s });
-      }
-      scored.sort((a, b) => b.score - a.score);
-
-      // Pick the best candidate whose full waypoint chain is obstacle-free
-      let bestPos = unit.pos;
-      let bestWaypoints: typeof unit.waypoints = [];
-      for (const { pos: candidate, score } of scored) {
-        if (score === -Infinity) break;
-        const detours = detourWaypoints(unit.pos, candidate, allBlockers, padding);
-        const chain = [...detours, candidate];
-
-        // Validate every segment in the chain
-        let pathClear = true;
-        let prev = unit.pos;
-        for (const wp of chain) {
-          if (allBlockers.some(o => segmentHitsRect(prev, wp, o, padding))) {
-            pathClear = false;
-            break;
-          }
-          prev = wp;
-        }
+  /** Plan red's paths with the position-scoring system, or the rollout search on hard. */
+  private planRed(): void {
+    if (this.hardAi) {
+      generateRolloutPaths(this.sim.units, 'red', this.sim.obstacles, this.sim.elevationZones, this.fog?.red, this.sim.terrainZones, this.sim.coverBlocks, { seed: `${this.mapSeed}-r${this.roundNumber}` });
+      return;
+    }
+    generateAiPaths(this.sim.units, 'red', this.sim.obstacles, this.sim.elevationZones, this.fog?.red, this.sim.terrainZones, this.sim.coverBlocks);
+  }
 
-        if (pathClear) {
-          bestPos = candidate;
-          bestWaypoints = chain;
-          break;
-        }
-      }
+  /** Plan red with the language-model commander, falling back to the scoring planner if it fails. */
+  private async commandRed(): Promise<void> {
+    const round = this.roundNumber;
+    let orders = null;
+    try {
+      orders = await this.commander!.getOrders(this.sim.units, this.sim.obstacles, this.fog?.red, [...this.sim.obstacles, ...this.sim.coverBlocks]);
+    } catch (err) {
+      console.warn('AI commander failed, using scoring planner:', err);
+    }
+    // The battle may have been left while the model was thinking
+    if (!this.running || this._phase !== 'cover' || round !== this.roundNumber) return;
 
-      unit.waypoints = bestWaypoints.length > 0 ? bestWaypoints : [bestPos];
+    if (orders && orders.orders.length > 0) {
+      applyAiOrders(this.sim.units, 'red', orders, [...this.sim.obstacles, ...this.sim.coverBlocks]);
+    } else {
+      this.planRed();
     }
+    this.setPhase('playing');
+  }
+
+  private updateFog(): void {
+    if (!this.fog) return;
+    this.fog.blue.update(this.sim.units, this.sim.obstacles, this.sim.terrainZones);
+    this.fog.red.update(this.sim.units, this.sim.obstacles, this.sim.terrainZones);
+  }
+
+  /** Whose eyes the screen shows: the AI opponent's view never is, and hot-seat shows the planner's. */
+  private fogViewer(): Team | null {
+    if (!this.fog) return null;
+    if (this.aiMode) return 'blue';
+    if (this._phase === 'red-planning') return 'red';
+    if (this._phase === 'blue-planning' || this._phase === 'cover') return 'blue';
+    return null;
+  }
+
+  private setPathVisibility(team: Team): void {
+    if (!this.pathDrawer) return;
+    const fog = this.fog?.[team];
+    this.pathDrawer.visibility = fog ? u => fog.isVisible(u) : null;
+    this.pathDrawer.intel = this.intelEnabled ? this.lastPaths[team === 'blue' ? 'red' : 'blue'] : [];
+  }
+
+  /** Draw units through the current viewer's fog, with ghosts where hidden enemies were last seen. */
+  private renderUnits(dt: number, units: Unit[] = this.sim.units): void {
+    const viewer = this.fogViewer();
+    if (!viewer) {
+      this.renderer.renderUnits(units, dt);
+      this.renderer.renderGhosts([]);
+      return;
+    }
+    const fog = this.fog![viewer];
+    // Dead units stay in so the ones already on screen can fade out
+    this.renderer.renderUnits(units.filter(u => !u.alive || fog.isVisible(u)), dt);
+    this.renderer.renderGhosts(fog.ghosts());
   }
 
   private tick = (ticker: { deltaMS: number }): void => {
@@ -242,16 +303,18 @@ export class GameEngine {
     const rawDt = ticker.deltaMS / 1000;
     const dt = this._phase === 'playing' ? rawDt * this.speedMultiplier : rawDt;
 
-    // Always render units (even during planning, need dt for death fade)
-    this.renderer.renderUnits(this.units, dt);
-
     // Animate pulsing indicators during planning
     this.pathDrawer?.updateHover();
 
-    if (this._phase !== 'playing') return;
+    if (this._phase !== 'playing') {
+      // Always render units (even during planning, need dt for death fade)
+      this.renderUnits(dt);
+      return;
+    }
 
     // During end delay, only animate effects and dying units (no combat/movement)
     if (this.endingBattle) {
+      this.renderUnits(dt);
       this.endDelayTimer -= dt;
       this.renderer.effects?.update(dt);
       if (this.endDelayTimer <= 0) {
@@ -260,174 +323,50 @@ export class GameEngine {
       return;
     }
 
-    this.elapsedTime += dt;
-    this.roundTimer -= dt;
-
-    // Horde start delay — skip red movement for 2s so player can react
-    const redDelayed = this.hordeStartDelay > 0;
-    if (redDelayed) this.hordeStartDelay -= dt;
-
-    // Zombies, shielders, and bombers always chase closest enemy
-    for (const unit of this.units) {
-      if (!unit.alive || (unit.type !== 'zombie' && unit.type !== 'shielder' && unit.type !== 'bomber')) continue;
-      const target = findTarget(unit, this.units, null, this.obstacles);
-      if (target) {
-        unit.waypoints = [];
-        unit.moveTarget = { x: target.pos.x, y: target.pos.y };
+    // Fixed-step simulation — higher speeds run more steps per frame, never larger ones
+    this.stepAccumulator = Math.min(this.stepAccumulator + dt, SIM_STEP_S * MAX_SIM_STEPS_PER_FRAME);
+    let outcome: RoundEndEvent | BattleEndEvent | null = null;
+    while (!outcome && this.stepAccumulator >= SIM_STEP_S) {
+      this.stepAccumulator -= SIM_STEP_S;
+      this.capturePoses();
+      for (const event of this.sim.step(SIM_STEP_S)) {
+        if (event.type === 'fire') this.onFire(event);
+        else if (event.type === 'hit' || event.type === 'kill') this.onHit(event);
+        else if (event.type === 'blast') this.onBlast(event);
+        else if (event.type === 'obstacle') this.onObstacle(event);
+        else if (event.type === 'heal') this.onHeal(event);
+        else if (event.type === 'status') this.onStatus(event);
+        else if (event.type === 'round-end' || event.type === 'battle-end') outcome = event;
       }
+      // Record replay frame after all state updates
+      this.recordFrame();
     }
 
-    // Advance waypoints and move
-    for (const unit of this.units) {
-      if (!unit.alive) continue;
-      if (redDelayed && unit.team === 'red') continue;
-      advanceWaypoint(unit, dt);
-      moveUnit(unit, dt, this.obstacles, this.units);
-    }
-    separateUnits(this.units, this.obstacles);
-
-    // Combat — auto-target nearest enemy, fire projectiles
-    for (const unit of this.units) {
-      if (!unit.alive) continue;
-
-      const target = findTarget(unit, this.units, null, this.obstacles);
-
-      // Blade uses AoE melee attack instead of projectiles
-      if (unit.type === 'blade') {
-        if (target) {
-          const desired = Math.atan2(target.pos.y - unit.pos.y, target.pos.x - unit.pos.x);
-          updateGunAngle(unit, desired, dt);
-        }
-        const aoeHits = bladeAoeAttack(unit, this.units, dt);
-        for (const hit of aoeHits) {
-          this.replayEvents.push({
-            frame: this.replayFrames.length,
-            type: hit.killed ? 'kill' : 'hit',
-            pos: hit.pos,
-            angle: unit.gunAngle,
-            damage: hit.damage,
-            flanked: false,
-            team: hit.team,
-            targetId: hit.targetId,
-          });
-        }
-        continue;
-      }
-
-      const canShoot = target
-        && isInRange(unit, target, this.elevationZones)
-        && hasLineOfSight(unit.pos, target.pos, this.obstacles);
-      if (canShoot) {
-        const desired = Math.atan2(target.pos.y - unit.pos.y, target.pos.x - unit.pos.x);
-        updateGunAngle(unit, desired, dt);
-        const projectiles = tryFireProjectile(unit, target, dt, this.elevationZones);
-        if (projectiles.length > 0) {
-          this.projectiles.push(...projectiles);
-          this.renderer.effects?.addMuzzleFlash(unit.pos, unit.gunAngle, unit.radius);
-          this.replayEvents.push({
-            frame: this.replayFrames.length,
-            type: 'fire',
-            pos: { x: unit.pos.x, y: unit.pos.y },
-            angle: unit.gunAngle,
-            damage: projectiles[0].damage,
-            flanked: false,
-            team: unit.team,
-          });
-        }
-      } else {
-        unit.fireTimer = Math.max(0, unit.fireTimer - dt);
-        if (target) {
-          // Out of range but enemy exists — face them
-          const desired = Math.atan2(target.pos.y - unit.pos.y, target.pos.x - unit.pos.x);
-          updateGunAngle(unit, desired, dt);
-        } else {
-          const speed = Math.sqrt(unit.vel.x * unit.vel.x + unit.vel.y * unit.vel.y);
-          if (speed > 1) {
-            const desired = Math.atan2(unit.vel.y, unit.vel.x);
-            updateGunAngle(unit, desired, dt);
-          }
-        }
-      }
+    if (this.terrainDirty) {
+      this.terrainDirty = false;
+      this.renderer.renderObstacles(this.sim.obstacles, this.sim.rubble);
     }
 
-    const { alive: aliveProjectiles, hits } = updateProjectiles(this.projectiles, this.units, dt, this.obstacles);
-    this.projectiles = aliveProjectiles;
-
-    // Trigger effects for hits + record replay events
-    const fx = this.renderer.effects;
-    for (const hit of hits) {
-      const unitGfx = this.renderer.getUnitContainer(hit.targetId);
-      if (unitGfx) fx?.addHitFlash(unitGfx);
-
-      this.replayEvents.push({
-        frame: this.replayFrames.length,
-        type: hit.killed ? 'kill' : 'hit',
-        pos: { ...hit.pos },
-        angle: hit.angle,
-        damage: hit.damage,
-        flanked: hit.flanked,
-        team: hit.team,
-        targetId: hit.targetId,
-      });
-
-      if (this.bloodEnabled) {
-        const victimTeam: Team = hit.team === 'blue' ? 'red' : 'blue';
-        const effectDamage = hit.flanked ? hit.damage * 1.5 : hit.damage;
-        fx?.addBloodSpray(hit.pos, hit.angle, victimTeam, effectDamage);
-        if (hit.killed) {
-          fx?.addKillText(hit.pos, hit.team);
-          fx?.addBloodBurst(hit.pos, hit.angle, victimTeam, effectDamage);
-        }
-      } else {
-        fx?.addImpactBurst(hit.pos, hit.team);
-        if (hit.killed) fx?.addKillText(hit.pos, hit.team);
-      }
-    }
-
-    // Bomber chain explosions
-    for (const hit of hits) {
-      if (hit.killed) {
-        const deadUnit = this.units.find(u => u.id === hit.targetId);
-        if (deadUnit && deadUnit.type === 'bomber') {
-          const explosionHits = bomberExplode(deadUnit, this.units);
-          for (const eh of explosionHits) {
-            this.replayEvents.push({
-              frame: this.replayFrames.length,
-              type: eh.killed ? 'kill' : 'hit',
-              pos: eh.pos,
-              angle: 0,
-              damage: eh.damage,
-              flanked: false,
-              team: deadUnit.team,
-              targetId: eh.targetId,
-            });
-          }
-        }
-      }
-    }
-
-    // Record replay frame after all state updates
-    this.recordFrame();
-
-    this.renderer.renderProjectiles(this.projectiles);
+    // Draw between the last two steps so motion stays smooth at any refresh rate
+    this.updateFog();
+    const alpha = outcome ? 1 : this.stepAccumulator / SIM_STEP_S;
+    this.renderUnits(dt, this.interpolatedUnits(alpha));
+    this.renderer.renderProjectiles(outcome ? [] : this.visibleProjectiles(this.interpolatedProjectiles(alpha)));
 
     // Update effects
     this.renderer.effects?.update(dt);
 
     // HUD update with time left
-    this.onEvent('update', { phase: 'playing', timeLeft: Math.max(0, this.roundTimer) });
+    this.onEvent('update', { phase: 'playing', timeLeft: Math.max(0, this.sim.roundTimer) });
 
-    // Win condition — elimination
-    const blueAlive = this.units.filter(u => u.alive && u.team === 'blue').length;
-    const redAlive = this.units.filter(u => u.alive && u.team === 'red').length;
+    if (!outcome) return;
+    this.stepAccumulator = 0;
 
-    if (blueAlive === 0 || redAlive === 0) {
-      if (redAlive === 0 && this.hordeMode) {
+    if (outcome.type === 'battle-end') {
+      if (outcome.winner === 'blue' && this.hordeMode) {
         // Wave cleared — don't end the battle, emit wave-clear event
         this.running = false;
         this.renderer.ticker.remove(this.tick, this);
-        this.projectiles = [];
-        this.renderer.renderProjectiles([]);
         this.pathDrawer?.disable();
         this.pathDrawer?.clearGraphics();
         this.onEvent('wave-clear');
@@ -435,37 +374,183 @@ export class GameEngine {
       }
       this.endingBattle = true;
       this.endDelayTimer = 0.6;
-      this.pendingWinner = blueAlive === 0 ? 'red' : 'blue';
-      this.projectiles = [];
-      this.renderer.renderProjectiles([]);
+      this.pendingWinner = outcome.winner;
       return;
     }
 
-    // Check if action is complete — no movement, no combat, no projectiles
-    const idle = this.projectiles.length === 0 && this.units.every(u => {
-      if (!u.alive) return true;
-      // Use actual velocity — moveTarget can be stuck on obstacles
-      const speed = u.vel.x * u.vel.x + u.vel.y * u.vel.y;
-      if (speed > 1 || u.waypoints.length > 0) return false;
-      const target = findTarget(u, this.units, null, this.obstacles);
-      return !target || !isInRange(u, target, this.elevationZones);
+    // Round over → back to planning
+    this.roundNumber++;
+    this.setPhase('blue-planning');
+  };
+
+  /** Remember where every unit was before the next fixed step. */
+  private capturePoses(): void {
+    for (const u of this.sim.units) {
+      this.prevPoses.set(u.id, { x: u.pos.x, y: u.pos.y, angle: u.gunAngle });
+    }
+  }
+
+  private interpolatedUnits(alpha: number): Unit[] {
+    if (alpha >= 1) return this.sim.units;
+    return this.sim.units.map(u => {
+      const prev = this.prevPoses.get(u.id);
+      if (!prev || !u.alive) return u;
+      let turn = u.gunAngle - prev.angle;
+      turn = ((turn + Math.PI) % (2 * Math.PI)) - Math.PI;
+      if (turn < -Math.PI) turn += 2 * Math.PI;
+      return {
+        ...u,
+        pos: { x: prev.x + (u.pos.x - prev.x) * alpha, y: prev.y + (u.pos.y - prev.y) * alpha },
+        gunAngle: prev.angle + turn * alpha,
+      };
     });
+  }
+
+  /** Projectiles fly straight, so back-project along velocity instead of storing history. */
+  private interpolatedProjectiles(alpha: number): Projectile[] {
+    const back = (1 - alpha) * SIM_STEP_S;
+    return this.sim.projectiles.map(p => ({
+      ...p,
+      pos: { x: p.pos.x - p.vel.x * back, y: p.pos.y - p.vel.y * back },
+      shell: p.shell && { ...p.shell, elapsed: Math.max(0, p.shell.elapsed - back) },
+    }));
+  }
 
-    // Require sustained idle for 0.5s to avoid transient false positives
-    this.idleTime = idle ? this.idleTime + dt : 0;
+  /** Projectiles the current viewer can see; shots from hidden enemies only show once they fly into sight. */
+  private visibleProjectiles(projectiles: Projectile[]): Projectile[] {
+    const viewer = this.fogViewer();
+    if (!viewer) return projectiles;
+    const fog = this.fog![viewer];
+    return projectiles.filter(p => fog.seesPoint(p.pos));
+  }
 
-    // Round over → back to planning
-    if (this.roundTimer <= 0 || this.idleTime >= 0.5) {
-      this.projectiles = [];
-      this.renderer.renderProjectiles([]);
-      this.roundNumber++;
-      this.setPhase('blue-planning');
+  /** Whether the current viewer can see the unit an effect is drawn on. */
+  private viewerSees(unitId: string): boolean {
+    const viewer = this.fogViewer();
+    if (!viewer) return true;
+    const unit = this.sim.units.find(u => u.id === unitId);
+    return !unit || this.fog![viewer].isVisible(unit);
+  }
+
+  private onFire(event: FireEvent): void {
+    // A muzzle flash would give away a shooter hidden in the fog
+    if (this.viewerSees(event.unitId)) this.renderer.effects?.addMuzzleFlash(event.pos, event.angle, event.radius);
+    this.replayEvents.push({
+      frame: this.replayFrames.length,
+      type: 'fire',
+      pos: event.pos,
+      angle: event.angle,
+      damage: event.damage,
+      flanked: false,
+      team: event.team,
+    });
+  }
+
+  private onHit(hit: HitEvent): void {
+    this.replayEvents.push({
+      frame: this.replayFrames.length,
+      type: hit.type,
+      pos: hit.pos,
+      angle: hit.angle,
+      damage: hit.damage,
+      flanked: hit.flanked,
+      team: hit.team,
+      targetId: hit.targetId,
+    });
+
+    // Melee, explosion and status hits are only recorded, not drawn; nor are hits on enemies hidden in the fog
+    if (hit.source !== 'projectile' || !this.viewerSees(hit.targetId)) return;
+
+    const fx = this.renderer.effects;
+    const unitGfx = this.renderer.getUnitContainer(hit.targetId);
+    if (unitGfx) fx?.addHitFlash(unitGfx);
+
+    const killed = hit.type === 'kill';
+    if (this.bloodEnabled) {
+      const victimTeam: Team = hit.team === 'blue' ? 'red' : 'blue';
+      const effectDamage = hit.flanked ? hit.damage * 1.5 : hit.damage;
+      fx?.addBloodSpray(hit.pos, hit.angle, victimTeam, effectDamage);
+      if (killed) {
+        fx?.addKillText(hit.pos, hit.team);
+        fx?.addBloodBurst(hit.pos, hit.angle, victimTeam, effectDamage);
+      }
+    } else {
+      fx?.addImpactBurst(hit.pos, hit.team);
+      if (killed) fx?.addKillText(hit.pos, hit.team);
     }
-  };
+  }
+
+  private onBlast(blast: BlastEvent): void {
+    this.renderer.effects?.addShellBlast(blast.pos, blast.radius, blast.team);
+    this.replayEvents.push({
+      frame: this.replayFrames.length,
+      type: 'blast',
+      pos: blast.pos,
+      angle: 0,
+      damage: 0,
+      flanked: false,
+      team: blast.team,
+      radius: blast.radius,
+    });
+  }
+
+  private onObstacle(event: ObstacleEvent): void {
+    const start = this.replayObstacles[event.index];
+    if (!start) return;
+    this.replayEvents.push({
+      frame: this.replayFrames.length,
+      type: 'obstacle-damage',
+      pos: event.pos,
+      angle: 0,
+      damage: event.damage,
+      flanked: false,
+      team: 'blue',
+      obstacleIndex: event.index,
+    });
+
+    // Only redraw terrain when a block looks different
+    const before = obstacleStage({ ...start, hp: event.hp + event.damage });
+    if (event.destroyed) {
+      this.renderer.effects?.addDebris(start);
+      this.terrainDirty = true;
+    } else if (obstacleStage({ ...start, hp: event.hp }) !== before) {
+      this.terrainDirty = true;
+    }
+  }
+
+  private onHeal(heal: HealEvent): void {
+    this.renderer.effects?.addHealPulse(heal.pos);
+    this.replayEvents.push({
+      frame: this.replayFrames.length,
+      type: 'heal',
+      pos: heal.pos,
+      angle: 0,
+      damage: heal.amount,
+      flanked: false,
+      team: heal.team,
+      targetId: heal.targetId,
+    });
+  }
+
+  private onStatus(event: StatusEvent): void {
+    const unit = this.sim.units.find(u => u.id === event.unitId);
+    if (!unit) return;
+    this.replayEvents.push({
+      frame: this.replayFrames.length,
+      type: event.change === 'apply' ? 'status-apply' : 'status-expire',
+      pos: { x: unit.pos.x, y: unit.pos.y },
+      angle: 0,
+      damage: 0,
+      flanked: false,
+      team: unit.team,
+      targetId: unit.id,
+      status: event.kind,
+    });
+  }
 
   private recordFrame(): void {
     this.replayFrames.push({
-      units: this.units.map(u => ({
+      units: this.sim.units.map(u => ({
         id: u.id,
         type: u.type,
         team: u.team,
@@ -478,8 +563,9 @@ export class GameEngine {
         maxHp: u.maxHp,
         alive: u.alive,
         radius: u.radius,
+        statuses: u.statusEffects?.length ? [...new Set(u.statusEffects.map(e => e.kind))] : undefined,
       })),
-      projectiles: this.projectiles.map(p => ({
+      projectiles: this.sim.projectiles.map(p => ({
         x: p.pos.x,
         y: p.pos.y,
         vx: p.vel.x,
@@ -490,6 +576,8 @@ export class GameEngine {
         maxRange: p.maxRange,
         distanceTraveled: p.distanceTraveled,
         trail: p.trail ? p.trail.map(t => ({ ...t })) : undefined,
+        target: p.shell ? { ...p.target } : undefined,
+        shell: p.shell ? { ...p.shell } : undefined,
       })),
     });
   }
@@ -499,22 +587,25 @@ export class GameEngine {
     return {
       frames: this.replayFrames,
       events: this.replayEvents,
-      obstacles: this.obstacles,
-      elevationZones: this.elevationZones,
+      obstacles: this.replayObstacles,
+      elevationZones: this.sim.elevationZones,
+      terrainZones: this.sim.terrainZones,
+      coverBlocks: this.sim.coverBlocks,
+      stepRate: SIM_TICK_RATE,
     };
   }
 
   private endBattle(winner: Team): void {
     this.running = false;
     this.renderer.ticker.remove(this.tick, this);
-    this.projectiles = [];
     this.renderer.renderProjectiles([]);
+    this.renderer.renderGhosts([]);
     this.pathDrawer?.disable();
     this.pathDrawer?.clearGraphics();
     this.renderer.effects?.clear();
 
-    const blueAlive = this.units.filter(u => u.alive && u.team === 'blue').length;
-    const redAlive = this.units.filter(u => u.alive && u.team === 'red').length;
+    const blueAlive = this.sim.aliveCount('blue');
+    const redAlive = this.sim.aliveCount('red');
     const blueTotal = ARMY_COMPOSITION.reduce((s, c) => s + c.count, 0);
     const redTotal = ARMY_COMPOSITION.reduce((s, c) => s + c.count, 0);
 
@@ -524,7 +615,7 @@ export class GameEngine {
       redAlive,
       blueKilled: redTotal - redAlive,
       redKilled: blueTotal - blueAlive,
-      duration: this.elapsedTime,
+      duration: this.sim.elapsedTime,
     });
   }
 
@@ -534,17 +625,18 @@ export class GameEngine {
 
   getAliveCount(): { blue: number; red: number } {
     return {
-      blue: this.units.filter(u => u.alive && u.team === 'blue').length,
-      red: this.units.filter(u => u.alive && u.team === 'red').length,
+      blue: this.sim.aliveCount('blue'),
+      red: this.sim.aliveCount('red'),
     };
   }
 
   getUnits(): Unit[] {
-    return this.units;
+    return this.sim.units;
   }
 
-  getMapData(): { obstacles: Obstacle[]; elevationZones: ElevationZone[] } {
-    return { obstacles: this.obstacles, elevationZones: this.elevationZones };
+  getMapData(): BattleMap {
+    const { obstacles, elevationZones, terrainZones, coverBlocks } = this.sim;
+    return { obstacles, elevationZones, terrainZones, coverBlocks };
   }
 
   stop(): void {
@@ -552,6 +644,7 @@ export class GameEngine {
     this.renderer.ticker.remove(this.tick, this);
     this.pathDrawer?.destroy();
     this.pathDrawer = null;
+    this.renderer.renderGhosts([]);
     this.renderer.effects?.clear();
   }
 }
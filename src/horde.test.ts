@@ -3,6 +3,7 @@ import { HORDE_WAVES, ALL_STAT_UPGRADES, ALL_RECRUIT_UPGRADES, pickUpgrades, hea
 import { createUnit } from './units';
 import { MAP_WIDTH, MAP_HEIGHT, HORDE_MAX_WAVES } from './constants';
 import { Unit } from './types';
+import { createRng } from './rng';
 
 describe('HORDE_WAVES', () => {
   it('has exactly 10 waves', () => {
@@ -45,6 +46,12 @@ describe('pickUpgrades', () => {
     }
   });
 
+  it('picks the same upgrades for the same seed', () => {
+    const a = pickUpgrades(makeBlueSquad(), 4, createRng('seed'));
+    const b = pickUpgrades(makeBlueSquad(), 4, createRng('seed'));
+    expect(a.map(p => p.id)).toEqual(b.map(p => p.id));
+  });
+
   it('guarantees at least 1 recruit in waves 1-3', () => {
     for (let wave = 1; wave <= 3; wave++) {
       for (let i = 0; i < 20; i++) {
@@ -1,6 +1,8 @@
 import { HordeWave, HordeUpgrade, Unit, UnitType, Obstacle } from './types';
-import { MAP_WIDTH, MAP_HEIGHT, UNIT_STATS } from './constants';
+import { MAP_WIDTH, MAP_HEIGHT } from './constants';
 import { createUnit, nudgeOutOfBlocks } from './units';
+import { Rng } from './rng';
+import { UNIT_DEFS, unitDef } from './unit-defs';
 
 export const HORDE_WAVES: HordeWave[] = [
   { wave: 1, enemies: [{ type: 'zombie', count: 5 }] },
@@ -52,10 +54,10 @@ export const ALL_STAT_UPGRADES: HordeUpgrade[] = [
     u.damage += 10;
   }),
   makeStatUpgrade('range_20', '+20 Range', 'All units gain +20 range', u => {
-    if (u.type !== 'blade') u.range += 20;
+    if (unitDef(u.type).attack !== 'melee-aoe') u.range += 20;
   }),
   makeStatUpgrade('range_50', '+50 Range', 'All units gain +50 range', u => {
-    if (u.type !== 'blade') u.range += 50;
+    if (unitDef(u.type).attack !== 'melee-aoe') u.range += 50;
   }),
   makeStatUpgrade('speed_15', '+15 Speed', 'All units gain +15 speed', u => {
     u.speed += 15;
@@ -88,14 +90,12 @@ function makeRecruitUpgrade(type: UnitType): HordeUpgrade {
   };
 }
 
-export const ALL_RECRUIT_UPGRADES: HordeUpgrade[] = [
-  makeRecruitUpgrade('soldier'),
-  makeRecruitUpgrade('blade'),
-  makeRecruitUpgrade('sniper'),
-];
+export const ALL_RECRUIT_UPGRADES: HordeUpgrade[] = (Object.keys(UNIT_DEFS) as UnitType[])
+  .filter(type => unitDef(type).recruitable)
+  .map(makeRecruitUpgrade);
 
 /** Pick 3 random upgrades with constraints. */
-export function pickUpgrades(blueUnits: Unit[], wave: number): HordeUpgrade[] {
+export function pickUpgrades(blueUnits: Unit[], wave: number, rng: Rng = Math.random): HordeUpgrade[] {
   const picks: HordeUpgrade[] = [];
   const usedIds = new Set<string>();
 
@@ -112,7 +112,7 @@ export function pickUpgrades(blueUnits: Unit[], wave: number): HordeUpgrade[] {
 
   // Guarantee at least 1 recruit in waves 1-3
   if (wave <= 3) {
-    const shuffled = [...recruitPool].sort(() => Math.random() - 0.5);
+    const shuffled = [...recruitPool].sort(() => rng() - 0.5);
     const recruit = shuffled.find(r => !usedIds.has(r.id));
     if (recruit) {
       picks.push(recruit);
@@ -127,7 +127,7 @@ export function pickUpgrades(blueUnits: Unit[], wave: number): HordeUpgrade[] {
   ];
 
   // Shuffle
-  const shuffled = [...allPool].sort(() => Math.random() - 0.5);
+  const shuffled = [...allPool].sort(() => rng() - 0.5);
 
   for (const upgrade of shuffled) {
     if (picks.length >= 3) break;
@@ -163,6 +163,8 @@ export function repositionBlueUnits(units: Unit[], blocks?: Obstacle[]): void {
     u.pos = pos;
     u.waypoints = [];
     u.moveTarget = null;
+    u.holdTime = undefined;
+    u.awaitingGo = false;
     u.vel = { x: 0, y: 0 };
     u.fireTimer = 0;
     u.gunAngle = -Math.PI / 2;
@@ -1,12 +1,15 @@
 import { Renderer } from './renderer';
 import { GameEngine } from './game';
 import { createArmy, createMissionArmy } from './units';
-import { generateObstacles, generateElevationZones, generateHordeObstacles, generateHordeElevationZones } from './battlefield';
-import { BattleResult, TurnPhase, Unit, Obstacle, ElevationZone, ReplayData } from './types';
+import { generateObstacles, generateElevationZones, generateTerrainZones, generateCoverBlocks, generateHordeObstacles, generateHordeCoverBlocks, generateHordeElevationZones, generateHordeTerrainZones } from './battlefield';
+import { BattleResult, TurnPhase, Unit, BattleMap, ReplayData } from './types';
 import { ARMY_COMPOSITION, HORDE_MAX_WAVES, HORDE_STARTING_ARMY } from './constants';
 import { HORDE_WAVES, pickUpgrades, healAllBlue, repositionBlueUnits } from './horde';
 import { ReplayPlayer } from './replay';
 import { DAY_THEME, NIGHT_THEME } from './theme';
+import { Rng, createRng, randomSeed, normalizeSeed } from './rng';
+import { AiCommander, formatDiagnostics } from './ai-commander';
+import { BackendKind, createBackend, setProgressCallback } from './commander-backend';
 
 // DOM elements
 const promptScreen = document.getElementById('prompt-screen')!;
@@ -14,7 +17,15 @@ const battleScreen = document.getElementById('battle-screen')!;
 const resultScreen = document.getElementById('result-screen')!;
 
 const battleBtn = document.getElementById('battle-btn')!;
-const aiBtn = document.getElementById('ai-btn')!;
+const aiBtn = document.getElementById('ai-btn') as HTMLButtonElement;
+const strategyInput = document.getElementById('strategy-input') as HTMLTextAreaElement;
+const modelProgressEl = document.getElementById('model-progress')!;
+const backendSelect = document.getElementById('backend-select') as HTMLSelectElement;
+const modelInput = document.getElementById('model-input') as HTMLInputElement;
+const endpointInput = document.getElementById('endpoint-input') as HTMLInputElement;
+const aiDebugCb = document.getElementById('ai-debug-cb') as HTMLInputElement;
+const difficultySelect = document.getElementById('difficulty-select') as HTMLSelectElement;
+const aiDebugPanel = document.getElementById('ai-debug-panel')!;
 const hordeBtn = document.getElementById('horde-btn')!;
 
 const battleHud = document.getElementById('battle-hud')!;
@@ -25,13 +36,19 @@ const speedToggle = document.getElementById('speed-toggle') as HTMLButtonElement
 
 const planningOverlay = document.getElementById('planning-overlay')!;
 const planningLabel = document.getElementById('planning-label')!;
+const planningInstructions = document.getElementById('planning-instructions')!;
 const confirmBtn = document.getElementById('confirm-btn')!;
+const planEditControls = document.getElementById('plan-edit-controls')!;
+const undoBtn = document.getElementById('undo-btn')!;
+const redoBtn = document.getElementById('redo-btn')!;
+const formationBtn = document.getElementById('formation-btn')!;
 const coverScreen = document.getElementById('cover-screen')!;
 const roundCounterEl = document.getElementById('round-counter')!;
 
 const winnerTextEl = document.getElementById('winner-text')!;
 const resultStatsEl = document.getElementById('result-stats')!;
 const rematchBtn = document.getElementById('rematch-btn')!;
+const sameMapBtn = document.getElementById('same-map-btn')!;
 const newBattleBtn = document.getElementById('new-battle-btn')!;
 const replayBtn = document.getElementById('replay-btn')!;
 
@@ -42,6 +59,9 @@ const upgradeCardsEl = document.getElementById('upgrade-cards')!;
 const oneShotCb = document.getElementById('one-shot-cb') as HTMLInputElement;
 const bloodCb = document.getElementById('blood-cb') as HTMLInputElement;
 const dayModeCb = document.getElementById('day-mode-cb') as HTMLInputElement;
+const fogCb = document.getElementById('fog-cb') as HTMLInputElement;
+const intelCb = document.getElementById('intel-cb') as HTMLInputElement;
+const seedInput = document.getElementById('seed-input') as HTMLInputElement;
 const pixiContainer = document.getElementById('pixi-container')!;
 
 // Replay controls
@@ -56,12 +76,15 @@ const replaySpeedToggle = document.getElementById('replay-speed-toggle') as HTML
 let renderer: Renderer | null = null;
 let engine: GameEngine | null = null;
 let aiMode = false;
+let commander: AiCommander | null = null;
+let lastSeed = '';
 
 // Horde state
 let hordeActive = false;
 let hordeWave = 0;
 let hordeUnits: Unit[] = [];
-let hordeMap: { obstacles: Obstacle[]; elevationZones: ElevationZone[] } | null = null;
+let hordeMap: BattleMap | null = null;
+let hordeRng: Rng = Math.random;
 
 // Replay state
 let replayPlayer: ReplayPlayer | null = null;
@@ -73,6 +96,7 @@ function showScreen(screen: 'prompt' | 'battle' | 'result' | 'horde-upgrade') {
   battleScreen.classList.add('active'); // always visible once initialized
   resultScreen.classList.toggle('active', screen === 'result');
   upgradeScreen.style.display = screen === 'horde-upgrade' ? 'flex' : 'none';
+  if (screen !== 'battle') aiDebugPanel.classList.remove('active');
 }
 
 function onPhaseChange(phase: TurnPhase): void {
@@ -90,16 +114,32 @@ function onPhaseChange(phase: TurnPhase): void {
       : (isDayMode ? '#aa3333' : '#ff4a4a');
     planningLabel.textContent = `${team} Planning`;
     planningLabel.style.color = color;
+    planningInstructions.style.display = '';
     planningOverlay.classList.add('active');
     confirmBtn.classList.add('active');
+    planEditControls.classList.add('active');
     roundTimerEl.textContent = '';
+  } else if (phase === 'cover' && aiMode && commander && !hordeActive) {
+    // The commander can take a while; say so instead of showing a frozen board
+    planningLabel.textContent = 'Red is planning...';
+    planningLabel.style.color = dayModeCb.checked ? '#aa3333' : '#ff4a4a';
+    planningInstructions.style.display = 'none';
+    planningOverlay.classList.add('active');
+    confirmBtn.classList.remove('active');
+    planEditControls.classList.remove('active');
   } else {
     planningOverlay.classList.remove('active');
     confirmBtn.classList.remove('active');
+    planEditControls.classList.remove('active');
   }
 
+  // AI debug panel — what the commander's last reply needed fixing
+  const diagnostics = aiMode && aiDebugCb.checked ? commander?.lastDiagnostics : null;
+  aiDebugPanel.textContent = diagnostics ? formatDiagnostics(diagnostics) : '';
+  aiDebugPanel.classList.toggle('active', !!diagnostics);
+
   // Cover screen — skip in horde mode (no red planning)
-  coverScreen.classList.toggle('active', phase === 'cover' && !hordeActive);
+  coverScreen.classList.toggle('active', phase === 'cover' && !hordeActive && !aiMode);
 }
 
 function captureReplayData(): void {
@@ -178,6 +218,7 @@ function onGameEvent(
       `Duration: ${result.duration.toFixed(1)}s`,
       `Blue survivors: ${result.blueAlive}/${blueTotal}`,
       `Red survivors: ${result.redAlive}/${redTotal}`,
+      `Map seed: ${lastSeed}`,
     ].join('<br>');
 
     rematchBtn.textContent = 'Rematch';
@@ -199,13 +240,41 @@ async function initRenderer(): Promise<void> {
 function showPreview(): void {
   if (!renderer) return;
   renderer.renderElevationZones(generateElevationZones());
+  renderer.renderTerrainZones(generateTerrainZones());
   renderer.renderObstacles(generateObstacles());
+  renderer.renderCoverBlocks(generateCoverBlocks());
   const preview = [...createArmy('blue'), ...createArmy('red')];
   renderer.renderUnits(preview);
 }
 
-function startGame(): void {
+/** Load the language-model commander for a strategy prompt. Null means the scoring planner plays red. */
+async function loadCommander(strategy: string): Promise<AiCommander | null> {
+  commander?.destroy();
+  if (!strategy) return null;
+
+  aiBtn.disabled = true;
+  modelProgressEl.textContent = backendSelect.value === 'webllm' ? 'Loading AI model...' : 'Connecting to AI...';
+  modelProgressEl.style.display = '';
+  setProgressCallback(({ text, progress }) => {
+    modelProgressEl.textContent = `${Math.round(progress * 100)}% ${text}`;
+  });
+
+  const backend = createBackend({ kind: backendSelect.value as BackendKind, model: modelInput.value.trim(), baseUrl: endpointInput.value.trim() });
+  const next = new AiCommander('red', strategy, backend);
+  const ready = await next.init();
+  aiBtn.disabled = false;
+  modelProgressEl.style.display = 'none';
+  return ready ? next : null;
+}
+
+/** Seed typed on the start screen, or a fresh random one. */
+function pickSeed(): string {
+  return normalizeSeed(seedInput.value) || randomSeed();
+}
+
+function startGame(seed = pickSeed()): void {
   lastReplayData = null;
+  lastSeed = seed;
   engine?.stop();
   document.body.classList.toggle('day-mode', dayModeCb.checked);
   renderer!.setTheme(dayModeCb.checked ? DAY_THEME : NIGHT_THEME);
@@ -213,6 +282,11 @@ function startGame(): void {
     aiMode,
     oneShot: oneShotCb.checked,
     blood: bloodCb.checked,
+    fog: fogCb.checked,
+    intel: intelCb.checked,
+    commander: aiMode ? commander ?? undefined : undefined,
+    hardAi: difficultySelect.value === 'hard',
+    seed,
   });
   showScreen('battle');
   speedToggle.classList.remove('active');
@@ -230,6 +304,7 @@ function startReplay(data: ReplayData): void {
   upgradeScreen.style.display = 'none';
   planningOverlay.classList.remove('active');
   confirmBtn.classList.remove('active');
+  planEditControls.classList.remove('active');
   battleHud.style.display = 'none';
 
   showScreen('battle');
@@ -263,17 +338,22 @@ function stopReplay(): void {
 
 // --- Horde mode functions ---
 
-function startHorde(): void {
+function startHorde(seed = pickSeed()): void {
   hordeActive = true;
   hordeWave = 0;
   lastReplayData = null;
+  lastSeed = seed;
+  // One stream per run: map first, then every upgrade draw
+  hordeRng = createRng(seed);
 
   // Generate map once for the whole run (before spawning so units avoid blocks)
-  const obstacles = generateHordeObstacles();
-  const elevationZones = generateHordeElevationZones();
-  hordeMap = { obstacles, elevationZones };
+  const obstacles = generateHordeObstacles(hordeRng);
+  const elevationZones = generateHordeElevationZones(hordeRng);
+  const terrainZones = generateHordeTerrainZones(hordeRng);
+  const coverBlocks = generateHordeCoverBlocks(obstacles, hordeRng);
+  hordeMap = { obstacles, elevationZones, terrainZones, coverBlocks };
 
-  const allBlocks = obstacles;
+  const allBlocks = [...obstacles, ...coverBlocks];
   hordeUnits = createMissionArmy('blue', HORDE_STARTING_ARMY, allBlocks);
 
   waveCounterEl.style.display = '';
@@ -295,6 +375,7 @@ function startNextHordeWave(): void {
     hordeRedArmy: waveDef.enemies,
     hordeMap: hordeMap!,
     blood: bloodCb.checked,
+    fog: fogCb.checked,
   });
 
   showScreen('battle');
@@ -307,7 +388,7 @@ function startNextHordeWave(): void {
 }
 
 function showUpgradeSelection(): void {
-  const upgrades = pickUpgrades(hordeUnits, hordeWave);
+  const upgrades = pickUpgrades(hordeUnits, hordeWave, hordeRng);
   upgradeCardsEl.innerHTML = '';
 
   for (const upgrade of upgrades) {
@@ -319,7 +400,7 @@ function showUpgradeSelection(): void {
       <div class="card-category">${upgrade.category}</div>
     `;
     card.addEventListener('click', () => {
-      const allBlocks = hordeMap!.obstacles;
+      const allBlocks = [...hordeMap!.obstacles, ...hordeMap!.coverBlocks];
       hordeUnits = upgrade.apply(hordeUnits, allBlocks);
       repositionBlueUnits(hordeUnits, allBlocks);
       showScreen('battle');
@@ -359,6 +440,7 @@ function showHordeResult(victory: boolean): void {
   resultStatsEl.innerHTML = [
     `Waves completed: ${victory ? HORDE_MAX_WAVES : hordeWave - 1}/${HORDE_MAX_WAVES}`,
     `Survivors: ${survivors}`,
+    `Map seed: ${lastSeed}`,
   ].join('<br>');
 
   rematchBtn.textContent = 'Try Again';
@@ -383,6 +465,7 @@ battleBtn.addEventListener('click', async () => {
 
 aiBtn.addEventListener('click', async () => {
   aiMode = true;
+  commander = await loadCommander(strategyInput.value.trim());
   await initRenderer();
   startGame();
 });
@@ -396,6 +479,19 @@ confirmBtn.addEventListener('click', () => {
   engine?.confirmPlan();
 });
 
+undoBtn.addEventListener('click', () => {
+  engine?.undoPlan();
+});
+
+redoBtn.addEventListener('click', () => {
+  engine?.redoPlan();
+});
+
+formationBtn.addEventListener('click', () => {
+  const formation = engine?.cycleFormation();
+  if (formation) formationBtn.textContent = formation[0].toUpperCase() + formation.slice(1);
+});
+
 coverScreen.addEventListener('click', () => {
   engine?.skipCover();
 });
@@ -418,11 +514,21 @@ rematchBtn.addEventListener('click', async () => {
   }
 });
 
+sameMapBtn.addEventListener('click', async () => {
+  await initRenderer();
+  if (hordeActive) {
+    startHorde(lastSeed);
+  } else {
+    startGame(lastSeed);
+  }
+});
+
 newBattleBtn.addEventListener('click', () => {
   engine?.stop();
   engine = null;
   planningOverlay.classList.remove('active');
   confirmBtn.classList.remove('active');
+  planEditControls.classList.remove('active');
   coverScreen.classList.remove('active');
   roundTimerEl.textContent = '';
   lastReplayData = null;
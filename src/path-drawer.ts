@@ -1,8 +1,11 @@
 import { Graphics, Container, Rectangle, Text } from 'pixi.js';
-import { Unit, Team, Vec2, ElevationZone } from './types';
-import { PATH_SAMPLE_DISTANCE, UNIT_SELECT_RADIUS, MAP_WIDTH, MAP_HEIGHT, ELEVATION_RANGE_BONUS, ROUND_DURATION_S } from './constants';
-import { getElevationLevel } from './units';
+import { Unit, Team, Vec2, Waypoint, Obstacle, ElevationZone, TerrainZone } from './types';
+import { PATH_SAMPLE_DISTANCE, UNIT_SELECT_RADIUS, MAP_WIDTH, MAP_HEIGHT, ELEVATION_RANGE_BONUS, ROUND_DURATION_S, FLANK_ANGLE_THRESHOLD, WAYPOINT_PICK_RADIUS, LONG_PRESS_MS, FLICK_MS, WAYPOINT_WAITS_S } from './constants';
+import { getElevationLevel, segmentHitsRect, detourPath } from './units';
+import { terrainAt, canFireFrom } from './terrain';
 import { Theme, NIGHT_THEME } from './theme';
+import { PathHistory, PlanSnapshot, IntelPath, capturePlan } from './path-history';
+import { Formation, FORMATIONS, formationPaths } from './formation';
 
 /** Sample a polyline from raw pointer positions, keeping points >= minDist apart. */
 export function samplePath(raw: Vec2[], minDist: number): Vec2[] {
@@ -42,6 +45,37 @@ function polylineLength(pts: Vec2[]): number {
   return len;
 }
 
+/** Seconds to walk a path, counting the pauses at timed nodes. */
+export function pathDuration(pts: Waypoint[], speed: number): number {
+  return polylineLength(pts) / speed + pts.reduce((sum, p) => sum + (p.wait ?? 0), 0);
+}
+
+/** Step a node through none → each wait in WAYPOINT_WAITS_S → go marker → none. */
+export function cycleWaypointMarker(wp: Waypoint): void {
+  if (wp.sync) {
+    wp.sync = undefined;
+    return;
+  }
+  const next = WAYPOINT_WAITS_S.find(w => w > (wp.wait ?? 0));
+  wp.wait = next;
+  if (next === undefined) wp.sync = true;
+}
+
+/** Position and heading reached `t` seconds into a walk along `pts`, pausing at timed nodes. */
+function pointAtTime(pts: Waypoint[], speed: number, t: number): { pos: Vec2; angle: number } {
+  let dist = 0;
+  let remaining = t;
+  for (let i = 1; i < pts.length; i++) {
+    const segTime = distancePt(pts[i - 1], pts[i]) / speed;
+    if (remaining <= segTime) return pointAtDistance(pts, dist + remaining * speed);
+    remaining -= segTime;
+    dist += segTime * speed;
+    remaining -= pts[i].wait ?? 0;
+    if (remaining <= 0) return pointAtDistance(pts, dist);
+  }
+  return pointAtDistance(pts, dist);
+}
+
 /** Return position and angle at a given distance along a polyline. */
 function pointAtDistance(pts: Vec2[], dist: number): { pos: Vec2; angle: number } {
   let remaining = dist;
@@ -68,20 +102,81 @@ function pointAtDistance(pts: Vec2[], dist: number): { pos: Vec2; angle: number
   };
 }
 
+/** Stroke a dashed segment from a to b. */
+function dashedLine(g: Graphics, a: Vec2, b: Vec2, dash = 6, gap = 4): void {
+  const len = distancePt(a, b);
+  if (len === 0) return;
+  const ux = (b.x - a.x) / len;
+  const uy = (b.y - a.y) / len;
+  for (let d = 0; d < len; d += dash + gap) {
+    const end = Math.min(d + dash, len);
+    g.moveTo(a.x + ux * d, a.y + uy * d);
+    g.lineTo(a.x + ux * end, a.y + uy * end);
+  }
+  g.stroke();
+}
+
+/** Filled wedge spanning the unit's protected front arc around `angle`. */
+function facingCone(g: Graphics, at: Vec2, angle: number, color: number, alpha: number): void {
+  const radius = 28;
+  g.moveTo(at.x, at.y);
+  g.arc(at.x, at.y, radius, angle - FLANK_ANGLE_THRESHOLD, angle + FLANK_ANGLE_THRESHOLD);
+  g.lineTo(at.x, at.y);
+  g.fill({ color, alpha: alpha * 0.25 });
+  g.moveTo(at.x, at.y);
+  g.arc(at.x, at.y, radius, angle - FLANK_ANGLE_THRESHOLD, angle + FLANK_ANGLE_THRESHOLD);
+  g.lineTo(at.x, at.y);
+  g.setStrokeStyle({ width: 1.5, color, alpha });
+  g.stroke();
+}
+
+/** Normalized rectangle spanned by two drag corners. */
+function boxRect(a: Vec2, b: Vec2): { x: number; y: number; w: number; h: number } {
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(b.x - a.x), h: Math.abs(b.y - a.y) };
+}
+
 export class PathDrawer {
   private stage: Container;
   private units: Unit[] = [];
   private elevationZones: ElevationZone[] = [];
+  private terrainZones: TerrainZone[] = [];
+  /** Obstacles and cover blocks that drawn paths get routed around. */
+  private blocks: Obstacle[] = [];
   private team: Team | null = null;
   private gfx: Graphics;
   private hoverGfx: Graphics;
   private selectedUnit: Unit | null = null;
   private hoveredUnit: Unit | null = null;
   private hoveredEnemy: Unit | null = null;
+  /** Own unit tapped without dragging — tapping an enemy next makes it that unit's focus target. */
+  private armedUnit: Unit | null = null;
+  /** The stroke being drawn started at the end of selectedUnit's path and adds to it. */
+  private extending = false;
+  /** When the path-end stroke first left the press point; a flick is timed from here, not from the press. */
+  private strokeMovedAt: number | null = null;
+  /** Redraws once the flick window closes, so the watch cone preview gives way to the extension. */
+  private flickTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Path node under a press; held past LONG_PRESS_MS it cycles the node's wait/go marker, dragged it moves. */
+  private pressedNode: { unit: Unit; node: Waypoint; time: number } | null = null;
+  /** Units picked by box select or tap-to-add; a stroke from any of them moves them all. */
+  private group: Unit[] = [];
+  /** The stroke being drawn moves the whole group in formation. */
+  private groupStroke = false;
+  private boxStart: Vec2 | null = null;
+  private boxEnd: Vec2 | null = null;
+  formation: Formation = 'line';
+  private draggingNode = false;
+  private history = new PathHistory();
+  /** The team's plan before the gesture in progress, committed to history when it ends. */
+  private editStart: PlanSnapshot | null = null;
   private rawPoints: Vec2[] = [];
   private enabled = false;
   private canvas: HTMLCanvasElement | null = null;
   theme: Theme = NIGHT_THEME;
+  /** Fog of war — enemies this returns false for get no hover or range preview. */
+  visibility: ((unit: Unit) => boolean) | null = null;
+  /** Opponent paths from the previous round, shown faintly when the intel rule is on. */
+  intel: IntelPath[] = [];
   private labelContainer: Container;
   private labelPool: Text[] = [];
   private labelIndex = 0;
@@ -120,6 +215,7 @@ export class PathDrawer {
     this.stage.on('pointerup', this.onPointerUp);
     this.stage.on('pointerupoutside', this.onPointerUp);
     this.stage.on('rightdown', this.onRightDown);
+    window.addEventListener('keydown', this.onKeyDown);
   }
 
   private acquireLabel(): Text {
@@ -140,14 +236,25 @@ export class PathDrawer {
     return label;
   }
 
-  enable(team: Team, units: Unit[], elevationZones: ElevationZone[] = []): void {
+  enable(team: Team, units: Unit[], elevationZones: ElevationZone[] = [], terrainZones: TerrainZone[] = [], blocks: Obstacle[] = []): void {
     this.team = team;
     this.units = units;
     this.elevationZones = elevationZones;
+    this.terrainZones = terrainZones;
+    this.blocks = blocks;
     this.enabled = true;
     this.selectedUnit = null;
     this.hoveredUnit = null;
     this.hoveredEnemy = null;
+    this.armedUnit = null;
+    this.extending = false;
+    this.endStroke();
+    this.pressedNode = null;
+    this.draggingNode = false;
+    this.editStart = null;
+    this.group = [];
+    this.groupStroke = false;
+    this.boxStart = null;
     this.rawPoints = [];
     this.renderPaths();
   }
@@ -158,18 +265,31 @@ export class PathDrawer {
     this.selectedUnit = null;
     this.hoveredUnit = null;
     this.hoveredEnemy = null;
+    this.armedUnit = null;
+    this.extending = false;
+    this.endStroke();
+    this.pressedNode = null;
+    this.draggingNode = false;
+    this.editStart = null;
+    this.group = [];
+    this.groupStroke = false;
+    this.boxStart = null;
     this.rawPoints = [];
     this.hoverGfx.clear();
     for (const label of this.labelPool) label.visible = false;
     this.onZoneHighlight?.(null);
   }
 
-  /** Clear all waypoints for a team (called at start of their planning phase). */
+  /** Clear all waypoints and edit history for a team (called at start of their planning phase). Focus targets carry over. */
   clearPaths(team: Team): void {
+    this.history.reset(team);
     for (const unit of this.units) {
       if (unit.team === team && unit.alive) {
         unit.waypoints = [];
         unit.moveTarget = null;
+        unit.holdTime = undefined;
+        unit.awaitingGo = false;
+        unit.facing = undefined;
       }
     }
     this.renderPaths();
@@ -179,11 +299,25 @@ export class PathDrawer {
     this.gfx.clear();
     this.labelIndex = 0;
 
+    for (const path of this.intel) {
+      const color = path.team === 'blue' ? this.theme.bluePath : this.theme.redPath;
+      this.gfx.setStrokeStyle({ width: 1.5, color, alpha: 0.3 });
+      let prev = path.from;
+      for (const wp of path.waypoints) {
+        dashedLine(this.gfx, prev, wp);
+        prev = wp;
+      }
+      const last = path.waypoints[path.waypoints.length - 1];
+      this.gfx.circle(last.x, last.y, 3);
+      this.gfx.fill({ color, alpha: 0.3 });
+    }
+
+    // Only the planning side's own paths; the other side's stay hidden until play
     for (const unit of this.units) {
-      if (!unit.alive || unit.waypoints.length === 0) continue;
+      if (!unit.alive || unit.team !== this.team || unit.waypoints.length === 0) continue;
 
       const color = unit.team === 'blue' ? this.theme.bluePath : this.theme.redPath;
-      const alpha = unit.team === this.team ? 0.8 : 0.3;
+      const alpha = 0.8;
 
       this.gfx.setStrokeStyle({ width: 2, color, alpha });
       this.gfx.moveTo(unit.pos.x, unit.pos.y);
@@ -197,14 +331,12 @@ export class PathDrawer {
       this.gfx.circle(last.x, last.y, 4);
       this.gfx.fill({ color, alpha });
 
-      // Tick marks at 1-second intervals + time label
-      const fullPath: Vec2[] = [unit.pos, ...unit.waypoints];
-      const pathLen = polylineLength(fullPath);
-      const travelTime = pathLen / unit.speed;
+      // Tick marks at 1-second intervals (pauses included) + time label
+      const fullPath: Waypoint[] = [unit.pos, ...unit.waypoints];
+      const travelTime = pathDuration(fullPath, unit.speed);
       const tickAlpha = alpha * 0.5;
-      const tickDist = unit.speed; // 1 second of travel
-      for (let d = tickDist; d < pathLen; d += tickDist) {
-        const { pos: tp, angle: ta } = pointAtDistance(fullPath, d);
+      for (let t = 1; t < travelTime; t++) {
+        const { pos: tp, angle: ta } = pointAtTime(fullPath, unit.speed, t);
         const nx = Math.cos(ta + Math.PI / 2) * 4;
         const ny = Math.sin(ta + Math.PI / 2) * 4;
         this.gfx.setStrokeStyle({ width: 1, color, alpha: tickAlpha });
@@ -213,6 +345,26 @@ export class PathDrawer {
         this.gfx.stroke();
       }
 
+      // Wait and go markers
+      for (const wp of unit.waypoints) {
+        if (wp.sync) {
+          this.gfx.poly([wp.x, wp.y - 7, wp.x + 7, wp.y, wp.x, wp.y + 7, wp.x - 7, wp.y]);
+          this.gfx.setStrokeStyle({ width: 2, color, alpha });
+          this.gfx.stroke();
+        } else if (wp.wait) {
+          this.gfx.circle(wp.x, wp.y, 6);
+          this.gfx.setStrokeStyle({ width: 2, color, alpha });
+          this.gfx.stroke();
+        } else {
+          continue;
+        }
+        const markerLabel = this.acquireLabel();
+        markerLabel.text = wp.sync ? 'GO' : `${wp.wait}s`;
+        markerLabel.style.fill = this.theme.labelFill;
+        markerLabel.position.set(wp.x + 14, wp.y + 6);
+        markerLabel.alpha = alpha;
+      }
+
       const overLimit = travelTime > ROUND_DURATION_S;
       const timeLabel = this.acquireLabel();
       timeLabel.text = overLimit ? `${travelTime.toFixed(1)}s!` : `${travelTime.toFixed(1)}s`;
@@ -221,6 +373,36 @@ export class PathDrawer {
       timeLabel.alpha = alpha;
     }
 
+    // Watch cones at each own unit's path end
+    for (const unit of this.units) {
+      if (!unit.alive || unit.team !== this.team) continue;
+      if (unit.facing === undefined) continue;
+      const color = unit.team === 'blue' ? this.theme.bluePath : this.theme.redPath;
+      facingCone(this.gfx, this.pathEnd(unit), unit.facing, color, 0.6);
+    }
+
+    // Live watch cone while a stroke off a path end would still land as a flick
+    if (this.selectedUnit && this.extending && this.isFlick()) {
+      const start = this.rawPoints[0];
+      const end = this.rawPoints[this.rawPoints.length - 1];
+      const color = this.team === 'blue' ? this.theme.bluePathBright : this.theme.redPathBright;
+      facingCone(this.gfx, start, Math.atan2(end.y - start.y, end.x - start.x), color, 1.0);
+    }
+
+    // Dashed focus-fire lines from each own unit's path end to its target
+    for (const unit of this.units) {
+      if (!unit.alive || unit.team !== this.team || !unit.attackTargetId) continue;
+      const target = this.units.find(u => u.id === unit.attackTargetId && u.alive);
+      if (!target || !this.canSee(target)) continue;
+
+      const color = unit.team === 'blue' ? this.theme.bluePath : this.theme.redPath;
+      this.gfx.setStrokeStyle({ width: 1.5, color, alpha: 0.7 });
+      dashedLine(this.gfx, this.pathEnd(unit), target.pos);
+      this.gfx.circle(target.pos.x, target.pos.y, target.radius + 6);
+      this.gfx.setStrokeStyle({ width: 1.5, color, alpha: 0.7 });
+      this.gfx.stroke();
+    }
+
     // Draw in-progress raw line (thicker + brighter than finalized paths)
     if (this.selectedUnit && this.rawPoints.length > 1) {
       const color = this.team === 'blue' ? this.theme.bluePathBright : this.theme.redPathBright;
@@ -231,10 +413,58 @@ export class PathDrawer {
       }
       this.gfx.stroke();
 
-      // Tick marks + live time label for in-progress path
+      // Stretches running through a block, and the detour they'll get on release
+      const unit = this.selectedUnit;
+      const radius = this.groupStroke ? Math.max(...this.group.map(u => u.radius)) : unit.radius;
+      this.gfx.setStrokeStyle({ width: 4, color: this.theme.labelWarn, alpha: 1.0 });
+      let blocked = false;
+      for (let i = 1; i < this.rawPoints.length; i++) {
+        const a = this.rawPoints[i - 1];
+        const b = this.rawPoints[i];
+        if (!this.blocks.some(o => segmentHitsRect(a, b, o, radius))) continue;
+        this.gfx.moveTo(a.x, a.y);
+        this.gfx.lineTo(b.x, b.y);
+        blocked = true;
+      }
+      if (blocked) this.gfx.stroke();
+
+      const sampled = samplePath(this.rawPoints, PATH_SAMPLE_DISTANCE).slice(1);
+      let rawTime: number;
+      let tickDist: number;
+      if (this.groupStroke) {
+        // Every member's slot path; the group moves at its slowest member's pace
+        const paths = formationPaths(this.group, this.rawPoints[0], sampled, this.formation, this.blocks);
+        this.gfx.setStrokeStyle({ width: 1.5, color, alpha: 0.5 });
+        paths.forEach((p, i) => {
+          let prev: Vec2 = this.group[i].pos;
+          for (const wp of p) {
+            dashedLine(this.gfx, prev, wp);
+            prev = wp;
+          }
+          this.gfx.circle(prev.x, prev.y, 3);
+          this.gfx.fill({ color, alpha: 0.8 });
+        });
+        tickDist = Math.min(...this.group.map(u => u.speed));
+        rawTime = pathDuration([this.rawPoints[0], ...sampled], tickDist);
+      } else {
+        // A fresh stroke replaces the unit's path on release; only an extension builds on it
+        const kept = this.extending ? unit.waypoints : [];
+        const from = kept.length > 0 ? kept[kept.length - 1] : unit.pos;
+        const corrected = detourPath(from, sampled, this.blocks, unit.radius);
+        if (blocked && corrected.length > 0) {
+          this.gfx.setStrokeStyle({ width: 2, color, alpha: 0.6 });
+          let prev: Vec2 = from;
+          for (const wp of corrected) {
+            dashedLine(this.gfx, prev, wp);
+            prev = wp;
+          }
+        }
+        tickDist = unit.speed;
+        rawTime = pathDuration([unit.pos, ...kept, ...corrected], unit.speed);
+      }
+
+      // Tick marks + live time label for in-progress path; the time counts any path it extends and the detour
       const rawLen = polylineLength(this.rawPoints);
-      const rawTime = rawLen / this.selectedUnit.speed;
-      const tickDist = this.selectedUnit.speed;
       for (let d = tickDist; d < rawLen; d += tickDist) {
         const { pos: tp, angle: ta } = pointAtDistance(this.rawPoints, d);
         const nx = Math.cos(ta + Math.PI / 2) * 5;
@@ -292,6 +522,32 @@ export class PathDrawer {
       }
     }
 
+    // Long-press progress ring on the pressed node
+    if (this.pressedNode && !this.draggingNode) {
+      const { node, time } = this.pressedNode;
+      const progress = Math.min(1, (Date.now() - time) / LONG_PRESS_MS);
+      this.hoverGfx.circle(node.x, node.y, 6 + 6 * progress);
+      this.hoverGfx.setStrokeStyle({ width: 2, color: teamColor, alpha: 0.4 + 0.6 * progress });
+      this.hoverGfx.stroke();
+    }
+
+    // Group members and the selection box being dragged out
+    for (const u of this.group) {
+      if (!u.alive) continue;
+      this.hoverGfx.circle(u.pos.x, u.pos.y, u.radius + 4);
+      this.hoverGfx.circle(u.pos.x, u.pos.y, u.radius + 7);
+      this.hoverGfx.setStrokeStyle({ width: 1.5, color: teamColor, alpha: 0.9 });
+      this.hoverGfx.stroke();
+    }
+    if (this.boxStart && this.boxEnd) {
+      const { x, y, w, h } = boxRect(this.boxStart, this.boxEnd);
+      this.hoverGfx.rect(x, y, w, h);
+      this.hoverGfx.fill({ color: teamColor, alpha: 0.08 });
+      this.hoverGfx.rect(x, y, w, h);
+      this.hoverGfx.setStrokeStyle({ width: 1, color: teamColor, alpha: 0.7 });
+      this.hoverGfx.stroke();
+    }
+
     // Selection ring on actively drawn unit
     if (this.selectedUnit) {
       this.hoverGfx.circle(this.selectedUnit.pos.x, this.selectedUnit.pos.y, this.selectedUnit.radius + 5);
@@ -306,6 +562,13 @@ export class PathDrawer {
       return; // Don't show hover when drawing
     }
 
+    // Armed unit waiting for an enemy tap
+    if (this.armedUnit) {
+      this.hoverGfx.circle(this.armedUnit.pos.x, this.armedUnit.pos.y, this.armedUnit.radius + 5);
+      this.hoverGfx.setStrokeStyle({ width: 2, color: teamColor, alpha: 0.5 + pulse * 0.5 });
+      this.hoverGfx.stroke();
+    }
+
     // Hover highlight on nearest own-team unit
     if (this.hoveredUnit) {
       this.hoverGfx.circle(this.hoveredUnit.pos.x, this.hoveredUnit.pos.y, this.hoveredUnit.radius + 4);
@@ -326,9 +589,7 @@ export class PathDrawer {
         this.hoverGfx.circle(last.x, last.y, 5);
         this.hoverGfx.fill({ color: brightColor, alpha: 1.0 });
 
-        const fullPath: Vec2[] = [this.hoveredUnit.pos, ...this.hoveredUnit.waypoints];
-        const pathLen = polylineLength(fullPath);
-        const travelTime = pathLen / this.hoveredUnit.speed;
+        const travelTime = pathDuration([this.hoveredUnit.pos, ...this.hoveredUnit.waypoints], this.hoveredUnit.speed);
         const overLimit = travelTime > ROUND_DURATION_S;
         this.hoverLabel.text = overLimit ? `${travelTime.toFixed(1)}s!` : `${travelTime.toFixed(1)}s`;
         this.hoverLabel.style.fill = overLimit ? this.theme.labelWarn : this.theme.hoverLabelFill;
@@ -350,37 +611,38 @@ export class PathDrawer {
       this.hoverGfx.setStrokeStyle({ width: 2, color: enemyColor, alpha: 0.6 });
       this.hoverGfx.stroke();
 
-      // Show enemy path + time on hover
-      if (this.hoveredEnemy.waypoints.length > 0) {
-        this.hoverGfx.setStrokeStyle({ width: 2, color: enemyColor, alpha: 0.5 });
-        this.hoverGfx.moveTo(this.hoveredEnemy.pos.x, this.hoveredEnemy.pos.y);
-        for (const wp of this.hoveredEnemy.waypoints) {
-          this.hoverGfx.lineTo(wp.x, wp.y);
-        }
-        this.hoverGfx.stroke();
-
-        const last = this.hoveredEnemy.waypoints[this.hoveredEnemy.waypoints.length - 1];
-        this.hoverGfx.circle(last.x, last.y, 4);
-        this.hoverGfx.fill({ color: enemyColor, alpha: 0.5 });
+      // Only where it stands now; the other side's moves show up as intel paths or not at all
+      this.drawRangeCircle(this.hoveredEnemy, this.hoveredEnemy.pos, enemyColor);
+    }
+  }
 
-        const fullPath: Vec2[] = [this.hoveredEnemy.pos, ...this.hoveredEnemy.waypoints];
-        const pathLen = polylineLength(fullPath);
-        const travelTime = pathLen / this.hoveredEnemy.speed;
-        const overLimit = travelTime > ROUND_DURATION_S;
-        this.hoverLabel.text = overLimit ? `${travelTime.toFixed(1)}s!` : `${travelTime.toFixed(1)}s`;
-        this.hoverLabel.style.fill = overLimit ? this.theme.labelWarn : this.theme.hoverLabelFill;
-        this.hoverLabel.position.set(last.x, last.y - 12);
-        this.hoverLabel.alpha = 0.6;
-        this.hoverLabel.visible = true;
-      }
+  /** Step back through the planning team's path edits. */
+  undo(): void {
+    if (!this.enabled || !this.team || this.gestureActive()) return;
+    if (this.history.undo(this.units, this.team)) {
+      this.armedUnit = null;
+      this.renderPaths();
+    }
+  }
 
-      const enemyEndPos = this.hoveredEnemy.waypoints.length > 0
-        ? this.hoveredEnemy.waypoints[this.hoveredEnemy.waypoints.length - 1]
-        : this.hoveredEnemy.pos;
-      this.drawRangeCircle(this.hoveredEnemy, enemyEndPos, enemyColor);
+  redo(): void {
+    if (!this.enabled || !this.team || this.gestureActive()) return;
+    if (this.history.redo(this.units, this.team)) {
+      this.armedUnit = null;
+      this.renderPaths();
     }
   }
 
+  private gestureActive(): boolean {
+    return this.selectedUnit !== null || this.pressedNode !== null || this.boxStart !== null;
+  }
+
+  /** Switch to the next group formation and return it. */
+  cycleFormation(): Formation {
+    this.formation = FORMATIONS[(FORMATIONS.indexOf(this.formation) + 1) % FORMATIONS.length];
+    return this.formation;
+  }
+
   /** Call each frame to animate pulsing indicators during planning. */
   updateHover(): void {
     if (this.enabled) this.renderHoverLayer();
@@ -390,7 +652,9 @@ export class PathDrawer {
     const level = getElevationLevel(pos, this.elevationZones);
     const elevated = level > 0;
     const range = unit.range * (1 + ELEVATION_RANGE_BONUS * level);
-    const ringColor = elevated ? this.theme.elevationBonus : color;
+    // Wading units can't shoot, so their ring turns into a warning
+    const silenced = !canFireFrom(pos, this.terrainZones);
+    const ringColor = silenced ? this.theme.labelWarn : elevated ? this.theme.elevationBonus : color;
 
     if (elevated) {
       for (const z of this.elevationZones) {
@@ -402,6 +666,17 @@ export class PathDrawer {
       }
     }
 
+    const kind = terrainAt(pos, this.terrainZones);
+    if (kind) {
+      for (const z of this.terrainZones) {
+        if (z.kind === kind && pos.x >= z.x && pos.x <= z.x + z.w && pos.y >= z.y && pos.y <= z.y + z.h) {
+          this.hoverGfx.roundRect(z.x, z.y, z.w, z.h, 10);
+          this.hoverGfx.setStrokeStyle({ width: 1.5, color: silenced ? this.theme.labelWarn : this.theme.hoverLabelFill, alpha: 0.4 });
+          this.hoverGfx.stroke();
+        }
+      }
+    }
+
     this.hoverGfx.circle(pos.x, pos.y, range + unit.radius);
     this.hoverGfx.setStrokeStyle({ width: 1, color: ringColor, alpha: 0.2 });
     this.hoverGfx.stroke();
@@ -421,6 +696,7 @@ export class PathDrawer {
     this.stage.off('pointerup', this.onPointerUp);
     this.stage.off('pointerupoutside', this.onPointerUp);
     this.stage.off('rightdown', this.onRightDown);
+    window.removeEventListener('keydown', this.onKeyDown);
     if (this.canvas) {
       this.canvas.removeEventListener('contextmenu', this.onContextMenu);
     }
@@ -438,6 +714,50 @@ export class PathDrawer {
     e.preventDefault();
   };
 
+  private pathEnd(unit: Unit): Vec2 {
+    return unit.waypoints.length > 0 ? unit.waypoints[unit.waypoints.length - 1] : unit.pos;
+  }
+
+  /** Interior node of an own unit's path under the pointer (pressing the end node extends the path instead). */
+  private findPathNode(px: number, py: number): { unit: Unit; node: Waypoint } | null {
+    if (!this.team) return null;
+    let closest: { unit: Unit; node: Waypoint } | null = null;
+    let closestDist = WAYPOINT_PICK_RADIUS;
+
+    for (const unit of this.units) {
+      if (!unit.alive || unit.team !== this.team) continue;
+      for (let i = 0; i < unit.waypoints.length - 1; i++) {
+        const dist = distancePt(unit.waypoints[i], { x: px, y: py });
+        if (dist < closestDist) {
+          closest = { unit, node: unit.waypoints[i] };
+          closestDist = dist;
+        }
+      }
+    }
+    return closest;
+  }
+
+  /** Own unit whose drawn path ends near the pointer. */
+  private findPathEnd(px: number, py: number): Unit | null {
+    if (!this.team) return null;
+    let closest: Unit | null = null;
+    let closestDist = UNIT_SELECT_RADIUS;
+
+    for (const unit of this.units) {
+      if (!unit.alive || unit.team !== this.team || unit.waypoints.length === 0) continue;
+      const dist = distancePt(this.pathEnd(unit), { x: px, y: py });
+      if (dist < closestDist) {
+        closest = unit;
+        closestDist = dist;
+      }
+    }
+    return closest;
+  }
+
+  private canSee(unit: Unit): boolean {
+    return unit.team === this.team || !this.visibility || this.visibility(unit);
+  }
+
   private findNearestUnit(px: number, py: number): Unit | null {
     if (!this.team) return null;
     let closest: Unit | null = null;
@@ -460,7 +780,7 @@ export class PathDrawer {
     let closestDist = UNIT_SELECT_RADIUS;
 
     for (const unit of this.units) {
-      if (!unit.alive || unit.team === this.team) continue;
+      if (!unit.alive || unit.team === this.team || !this.canSee(unit)) continue;
       const dist = distancePt(unit.pos, { x: px, y: py });
       if (dist < closestDist) {
         closest = unit;
@@ -470,31 +790,131 @@ export class PathDrawer {
     return closest;
   }
 
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (!this.enabled) return;
+    if (e.key === 'Escape' && this.group.length > 0) {
+      this.group = [];
+      this.renderHoverLayer();
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      this.undo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      this.redo();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  private beginEdit(): void {
+    if (this.team) this.editStart = capturePlan(this.units, this.team);
+  }
+
+  private commitEdit(): void {
+    if (this.team && this.editStart) this.history.commit(this.units, this.team, this.editStart);
+    this.editStart = null;
+  }
+
   private onPointerDown = (e: { global: { x: number; y: number }; button?: number }): void => {
     if (!this.enabled || !this.team) return;
     // Ignore right clicks for path drawing
     if (e.button === 2) return;
 
+    this.beginEdit();
+
     const closest = this.findNearestUnit(e.global.x, e.global.y);
+    if (closest && this.group.length > 0) {
+      this.hoveredEnemy = null;
+      this.armedUnit = null;
+      if (!this.group.includes(closest)) {
+        // Tap-to-add
+        this.group.push(closest);
+        this.editStart = null;
+        this.renderHoverLayer();
+        return;
+      }
+      // Stroke from any member moves the whole group
+      this.selectedUnit = closest;
+      this.groupStroke = true;
+      this.extending = false;
+      this.rawPoints = [{ x: closest.pos.x, y: closest.pos.y }];
+      this.renderPaths();
+      return;
+    }
     if (closest) {
       this.hoveredEnemy = null;
+      this.armedUnit = null;
       this.selectedUnit = closest;
-      closest.waypoints = [];
-      closest.moveTarget = null;
+      this.extending = false;
       this.rawPoints = [{ x: closest.pos.x, y: closest.pos.y }];
       this.renderPaths();
       return;
     }
 
-    // Tap on enemy → show their range
+    // Press on a path node → drag to move it, long-press for a wait or go marker
+    const picked = this.findPathNode(e.global.x, e.global.y);
+    if (picked) {
+      this.hoveredEnemy = null;
+      this.armedUnit = null;
+      this.pressedNode = { ...picked, time: Date.now() };
+      this.draggingNode = false;
+      return;
+    }
+
+    // Press on a path end → drag to extend the path, flick to set the watch direction
+    const ender = this.findPathEnd(e.global.x, e.global.y);
+    if (ender) {
+      const end = this.pathEnd(ender);
+      this.hoveredEnemy = null;
+      this.armedUnit = null;
+      this.selectedUnit = ender;
+      this.extending = true;
+      this.pressedNode = { unit: ender, node: end, time: Date.now() };
+      this.rawPoints = [{ x: end.x, y: end.y }];
+      this.renderPaths();
+      return;
+    }
+
+    // Tap on enemy → focus target for the armed unit, otherwise show their range
     const enemy = this.findNearestEnemy(e.global.x, e.global.y);
+    if (this.armedUnit) {
+      if (enemy) this.armedUnit.attackTargetId = enemy.id;
+      this.armedUnit = null;
+      this.commitEdit();
+      this.renderPaths();
+      if (enemy) return;
+    }
+    this.editStart = null;
     this.hoveredEnemy = enemy;
+    // Empty ground → start a selection box
+    if (!enemy) this.boxStart = { x: e.global.x, y: e.global.y };
     this.renderHoverLayer();
   };
 
   private onPointerMove = (e: { global: { x: number; y: number } }): void => {
     if (!this.enabled) return;
 
+    if (this.boxStart) {
+      this.boxEnd = { x: e.global.x, y: e.global.y };
+      this.renderHoverLayer();
+      return;
+    }
+
+    // Dragging a path node
+    if (this.pressedNode && !this.selectedUnit) {
+      const { node } = this.pressedNode;
+      if (this.draggingNode || distancePt(node, e.global) >= WAYPOINT_PICK_RADIUS) {
+        this.draggingNode = true;
+        node.x = e.global.x;
+        node.y = e.global.y;
+        this.renderPaths();
+      }
+      return;
+    }
+
     // Update hover state
     if (!this.selectedUnit) {
       const prev = this.hoveredUnit;
@@ -512,29 +932,156 @@ export class PathDrawer {
     // Drawing mode
     if (this.selectedUnit) {
       this.rawPoints.push({ x: e.global.x, y: e.global.y });
+      if (this.extending && this.strokeMovedAt === null && distancePt(this.rawPoints[0], e.global) >= PATH_SAMPLE_DISTANCE) {
+        this.strokeMovedAt = Date.now();
+        this.flickTimer = setTimeout(() => {
+          this.flickTimer = null;
+          this.renderPaths();
+        }, FLICK_MS);
+      }
       this.renderPaths();
     }
   };
 
   private onPointerUp = (): void => {
-    if (!this.enabled || !this.selectedUnit) return;
+    if (!this.enabled) return;
 
-    const waypoints = samplePath(this.rawPoints, PATH_SAMPLE_DISTANCE);
-    // Skip the first point (unit's current position)
-    this.selectedUnit.waypoints = waypoints.slice(1);
+    const pressedFor = this.pressedNode ? Date.now() - this.pressedNode.time : 0;
+
+    if (this.boxStart) {
+      // A box selects the own units inside it; a plain tap on the ground clears the group
+      const box = this.boxEnd ? boxRect(this.boxStart, this.boxEnd) : null;
+      this.group = box && box.w + box.h >= PATH_SAMPLE_DISTANCE
+        ? this.units.filter(u => u.alive && u.team === this.team
+          && u.pos.x >= box.x && u.pos.x <= box.x + box.w && u.pos.y >= box.y && u.pos.y <= box.y + box.h)
+        : [];
+      this.boxStart = null;
+      this.boxEnd = null;
+      this.renderHoverLayer();
+      return;
+    }
+
+    if (this.pressedNode && !this.selectedUnit) {
+      const { unit, node } = this.pressedNode;
+      if (this.draggingNode) {
+        // The moved node may have pulled a leg through a block
+        unit.waypoints = detourPath(unit.pos, unit.waypoints, this.blocks, unit.radius);
+      } else if (pressedFor >= LONG_PRESS_MS) {
+        cycleWaypointMarker(node);
+      }
+      this.pressedNode = null;
+      this.draggingNode = false;
+      this.commitEdit();
+      this.renderPaths();
+      return;
+    }
+
+    if (!this.selectedUnit) return;
+
+    const unit = this.selectedUnit;
+    const start = this.rawPoints[0];
+    const end = this.rawPoints[this.rawPoints.length - 1];
+    const tap = polylineLength(this.rawPoints) < PATH_SAMPLE_DISTANCE;
+
+    if (this.groupStroke) {
+      if (tap) {
+        // Tapping a member drops it from the group
+        this.group = this.group.filter(u => u !== unit);
+      } else {
+        this.applyGroupStroke();
+      }
+    } else if (this.extending) {
+      if (tap) {
+        // A tap on the path end drops the watch order; holding it sets a marker
+        if (pressedFor >= LONG_PRESS_MS) {
+          cycleWaypointMarker(this.pressedNode!.node);
+        } else {
+          unit.facing = undefined;
+        }
+      } else if (this.isFlick()) {
+        unit.facing = Math.atan2(end.y - start.y, end.x - start.x);
+      } else {
+        unit.waypoints = [...unit.waypoints, ...this.strokeToPath(unit)];
+      }
+    } else if (tap) {
+      // A tap without a drag arms the unit for picking a focus target and leaves its plan alone
+      this.armedUnit = unit;
+    } else {
+      // A real stroke from the unit replaces its path
+      unit.waypoints = [];
+      unit.moveTarget = null;
+      unit.facing = undefined;
+      unit.waypoints = this.strokeToPath(unit);
+    }
 
     this.selectedUnit = null;
+    this.extending = false;
+    this.endStroke();
+    this.groupStroke = false;
+    this.pressedNode = null;
     this.rawPoints = [];
+    this.commitEdit();
     this.renderPaths();
   };
 
+  /** A stroke off a path end that left the press point under FLICK_MS ago sets facing instead of extending. */
+  private isFlick(): boolean {
+    return this.strokeMovedAt !== null && Date.now() - this.strokeMovedAt < FLICK_MS;
+  }
+
+  private endStroke(): void {
+    if (this.flickTimer) clearTimeout(this.flickTimer);
+    this.flickTimer = null;
+    this.strokeMovedAt = null;
+  }
+
+  /** Give every group member its formation slot's share of the finished stroke. */
+  private applyGroupStroke(): void {
+    const members = this.group.filter(u => u.alive);
+    let path: Waypoint[] = samplePath(this.rawPoints, PATH_SAMPLE_DISTANCE).slice(1);
+
+    // Ending on an enemy focuses the whole group on it
+    const end = this.rawPoints[this.rawPoints.length - 1];
+    const enemy = this.findNearestEnemy(end.x, end.y);
+    if (enemy) {
+      for (const u of members) u.attackTargetId = enemy.id;
+      while (path.length > 0 && distancePt(path[path.length - 1], enemy.pos) < UNIT_SELECT_RADIUS) path = path.slice(0, -1);
+    }
+
+    const paths = formationPaths(members, this.rawPoints[0], path, this.formation, this.blocks);
+    members.forEach((u, i) => {
+      u.waypoints = paths[i];
+      u.moveTarget = null;
+      u.facing = undefined;
+    });
+  }
+
+  /** Sample the finished stroke into waypoints, dropping its start point and routing it around blocks. */
+  private strokeToPath(unit: Unit): Waypoint[] {
+    let path: Waypoint[] = samplePath(this.rawPoints, PATH_SAMPLE_DISTANCE).slice(1);
+
+    // Dragging onto an enemy makes it the focus target; stop short instead of walking into it
+    const end = this.rawPoints[this.rawPoints.length - 1];
+    const enemy = path.length > 0 ? this.findNearestEnemy(end.x, end.y) : null;
+    if (enemy) {
+      unit.attackTargetId = enemy.id;
+      while (path.length > 0 && distancePt(path[path.length - 1], enemy.pos) < UNIT_SELECT_RADIUS) path = path.slice(0, -1);
+    }
+    return detourPath(this.pathEnd(unit), path, this.blocks, unit.radius);
+  }
+
   private onRightDown = (e: { global: { x: number; y: number } }): void => {
     if (!this.enabled || !this.team) return;
 
     const unit = this.findNearestUnit(e.global.x, e.global.y);
     if (unit) {
+      this.beginEdit();
       unit.waypoints = [];
       unit.moveTarget = null;
+      unit.attackTargetId = null;
+      unit.facing = undefined;
+      if (this.armedUnit === unit) this.armedUnit = null;
+      this.commitEdit();
       this.renderPaths();
     }
   };
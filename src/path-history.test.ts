@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PathHistory, capturePlan, stashPlan, restorePlan } from './path-history';
+import { createUnit } from './units';
+
+function setup() {
+  const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+  const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 100, y: 100 });
+  return { blue, red, units: [blue, red], history: new PathHistory() };
+}
+
+describe('PathHistory', () => {
+  it('undoes and redoes an edit', () => {
+    const { blue, units, history } = setup();
+    const before = capturePlan(units, 'blue');
+    blue.waypoints = [{ x: 150, y: 600, wait: 2 }];
+    blue.facing = 1;
+    history.commit(units, 'blue', before);
+
+    expect(history.undo(units, 'blue')).toBe(true);
+    expect(blue.waypoints).toEqual([]);
+    expect(blue.facing).toBeUndefined();
+
+    expect(history.redo(units, 'blue')).toBe(true);
+    expect(blue.waypoints).toEqual([{ x: 150, y: 600, wait: 2 }]);
+    expect(blue.facing).toBe(1);
+  });
+
+  it('snapshots nodes so later edits in place do not leak into history', () => {
+    const { blue, units, history } = setup();
+    blue.waypoints = [{ x: 150, y: 600 }];
+    const before = capturePlan(units, 'blue');
+    blue.waypoints[0].x = 300;
+    history.commit(units, 'blue', before);
+
+    history.undo(units, 'blue');
+
+    expect(blue.waypoints).toEqual([{ x: 150, y: 600 }]);
+  });
+
+  it('skips edits that change nothing', () => {
+    const { units, history } = setup();
+    history.commit(units, 'blue', capturePlan(units, 'blue'));
+
+    expect(history.canUndo('blue')).toBe(false);
+  });
+
+  it('keeps each team separate and drops redo after a new edit', () => {
+    const { blue, red, units, history } = setup();
+    let before = capturePlan(units, 'blue');
+    blue.waypoints = [{ x: 150, y: 600 }];
+    history.commit(units, 'blue', before);
+    before = capturePlan(units, 'red');
+    red.attackTargetId = blue.id;
+    history.commit(units, 'red', before);
+
+    history.undo(units, 'blue');
+    expect(red.attackTargetId).toBe(blue.id);
+    expect(history.canRedo('blue')).toBe(true);
+
+    before = capturePlan(units, 'blue');
+    blue.waypoints = [{ x: 200, y: 650 }];
+    history.commit(units, 'blue', before);
+    expect(history.canRedo('blue')).toBe(false);
+  });
+
+  it('forgets a team on reset', () => {
+    const { blue, units, history } = setup();
+    const before = capturePlan(units, 'blue');
+    blue.waypoints = [{ x: 150, y: 600 }];
+    history.commit(units, 'blue', before);
+
+    history.reset('blue');
+
+    expect(history.undo(units, 'blue')).toBe(false);
+    expect(blue.waypoints).toEqual([{ x: 150, y: 600 }]);
+  });
+});
+
+describe('stashPlan', () => {
+  it('hides a team plan until it is restored', () => {
+    const { blue, red, units } = setup();
+    blue.waypoints = [{ x: 150, y: 600, sync: true }];
+    blue.facing = 2;
+    red.waypoints = [{ x: 120, y: 200 }];
+
+    const stashed = stashPlan(units, 'blue');
+    expect(blue.waypoints).toEqual([]);
+    expect(blue.facing).toBeUndefined();
+    expect(red.waypoints).toEqual([{ x: 120, y: 200 }]);
+
+    restorePlan(units, stashed);
+    expect(blue.waypoints).toEqual([{ x: 150, y: 600, sync: true }]);
+    expect(blue.facing).toBe(2);
+  });
+});
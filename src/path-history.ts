@@ -0,0 +1,101 @@
+import { Unit, Team, Vec2, Waypoint } from './types';
+
+/** One unit's planning orders, frozen. */
+interface UnitPlan {
+  id: string;
+  waypoints: Waypoint[];
+  facing?: number;
+  attackTargetId: string | null;
+}
+
+export type PlanSnapshot = UnitPlan[];
+
+/** A path as it was drawn, kept after the round as intel for the other side. */
+export interface IntelPath {
+  team: Team;
+  from: Vec2;
+  waypoints: Waypoint[];
+}
+
+/** Copy every live `team` unit's path, facing and focus target. */
+export function capturePlan(units: Unit[], team: Team): PlanSnapshot {
+  return units
+    .filter(u => u.alive && u.team === team)
+    .map(u => ({ id: u.id, waypoints: u.waypoints.map(wp => ({ ...wp })), facing: u.facing, attackTargetId: u.attackTargetId }));
+}
+
+/** Take `team`'s plan off its units so the other side's planner can't see it. */
+export function stashPlan(units: Unit[], team: Team): PlanSnapshot {
+  const plan = capturePlan(units, team);
+  for (const u of units) {
+    if (!u.alive || u.team !== team) continue;
+    u.waypoints = [];
+    u.facing = undefined;
+  }
+  return plan;
+}
+
+/** Copy the paths `team` is about to run, with where each one starts. */
+export function captureIntel(units: Unit[], team: Team): IntelPath[] {
+  return units
+    .filter(u => u.alive && u.team === team && u.waypoints.length > 0)
+    .map(u => ({ team, from: { x: u.pos.x, y: u.pos.y }, waypoints: u.waypoints.map(wp => ({ ...wp })) }));
+}
+
+export function restorePlan(units: Unit[], plan: PlanSnapshot): void {
+  for (const saved of plan) {
+    const unit = units.find(u => u.id === saved.id);
+    if (!unit) continue;
+    unit.waypoints = saved.waypoints.map(wp => ({ ...wp }));
+    unit.moveTarget = null;
+    unit.facing = saved.facing;
+    unit.attackTargetId = saved.attackTargetId;
+  }
+}
+
+function samePlan(a: PlanSnapshot, b: PlanSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Per-team undo/redo stacks for planning-phase path edits. */
+export class PathHistory {
+  private undoStack: Record<Team, PlanSnapshot[]> = { blue: [], red: [] };
+  private redoStack: Record<Team, PlanSnapshot[]> = { blue: [], red: [] };
+
+  /** Record an edit that started from `before`. No-op edits leave the history alone. */
+  commit(units: Unit[], team: Team, before: PlanSnapshot): void {
+    if (samePlan(before, capturePlan(units, team))) return;
+    this.undoStack[team].push(before);
+    this.redoStack[team] = [];
+  }
+
+  undo(units: Unit[], team: Team): boolean {
+    const plan = this.undoStack[team].pop();
+    if (!plan) return false;
+    this.redoStack[team].push(capturePlan(units, team));
+    restorePlan(units, plan);
+    return true;
+  }
+
+  redo(units: Unit[], team: Team): boolean {
+    const plan = this.redoStack[team].pop();
+    if (!plan) return false;
+    this.undoStack[team].push(capturePlan(units, team));
+    restorePlan(units, plan);
+    return true;
+  }
+
+  canUndo(team: Team): boolean {
+    return this.undoStack[team].length > 0;
+  }
+
+  canRedo(team: Team): boolean {
+    return this.redoStack[team].length > 0;
+  }
+
+  /** Forget a team's edits, e.g. when a new planning phase wipes its paths. */
+  reset(team: Team): void {
+    this.undoStack[team] = [];
+    this.redoStack[team] = [];
+  }
+}
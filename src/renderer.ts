@@ -1,24 +1,47 @@
 import { Application, Graphics, Container, Text, Texture, TilingSprite } from 'pixi.js';
-import { Unit, Obstacle, Projectile, ElevationZone, Vec2 } from './types';
-import { MAP_WIDTH, MAP_HEIGHT, setMapSize } from './constants';
+import { Unit, Obstacle, Projectile, ElevationZone, TerrainZone, TerrainKind, CoverBlock, Vec2, StatusKind } from './types';
+import { MAP_WIDTH, MAP_HEIGHT, SHELL_ARC_HEIGHT, setMapSize } from './constants';
 import { createEffectsManager, EffectsManager } from './effects';
 import { mergeObstacles } from './obstacle-merge';
 import { Theme, NIGHT_THEME } from './theme';
+import { unitDef } from './unit-defs';
+import { obstacleStage } from './destructible';
+import { TERRAIN_DEFS } from './terrain';
+
+/** Deterministic 0..1 noise keyed by a shape's corner, for decorations that must not jitter between redraws. */
+function stableNoise(x: number, y: number, i: number): number {
+  const seed = (x * 7919 + y * 104729 + i * 31) | 0;
+  return ((Math.sin(seed) * 43758.5453) % 1 + 1) % 1;
+}
+
+interface ZoneLabel {
+  rect: Obstacle;
+  label: Text;
+  hovered: boolean;
+  dragActive: boolean;
+}
 
 export class Renderer {
   private app: Application;
   private unitGraphics: Map<string, Container> = new Map();
   private dyingUnits: Map<string, { container: Container; age: number }> = new Map();
   private elevationGraphics: Container | null = null;
+  private terrainGraphics: Container | null = null;
+  private coverGraphics: Graphics | null = null;
   private obstacleGraphics: Container | null = null;
   private bgGraphics: Graphics | null = null;
   private projectileGraphics: Graphics | null = null;
+  private ghostGraphics: Graphics | null = null;
   private _effects: EffectsManager | null = null;
-  private zoneLabels: { rect: Obstacle; label: Text; hovered: boolean; dragActive: boolean }[] = [];
+  private zoneLabels: ZoneLabel[] = [];
+  private terrainLabels: ZoneLabel[] = [];
   private theme: Theme = NIGHT_THEME;
   private noiseSprite: TilingSprite | null = null;
   private lastElevationZones: ElevationZone[] = [];
+  private lastTerrainZones: TerrainZone[] = [];
+  private lastCoverBlocks: CoverBlock[] = [];
   private lastObstacles: Obstacle[] = [];
+  private lastRubble: Obstacle[] = [];
   bloodEnabled = true;
 
   constructor() {
@@ -114,45 +137,122 @@ export class Renderer {
       gfx.roundRect(z.x + m2, z.y + m2, z.w - m2 * 2, z.h - m2 * 2, 2);
       gfx.fill({ color: this.theme.elevationInner, alpha: 0.25 * eA });
 
-      const hitArea = new Graphics();
-      hitArea.roundRect(z.x, z.y, z.w, z.h, 6);
-      hitArea.fill({ color: 0x000000, alpha: 0.001 });
-      hitArea.eventMode = 'static';
-      hitArea.cursor = 'default';
+      this.zoneLabels.push(this.addZoneLabel(container, z, '+20% Range', this.theme.elevationLabel));
+    }
 
-      const label = new Text({
-        text: '+20% Range',
-        style: {
-          fontSize: 14,
-          fontFamily: 'monospace',
-          fill: this.theme.elevationLabel,
-          fontWeight: 'bold',
-        },
-      });
-      label.alpha = 0;
-      label.anchor.set(0.5, 0.5);
-      label.x = z.x + z.w / 2;
-      label.y = z.y + z.h / 2;
+    container.addChild(gfx);
+    container.setChildIndex(gfx, 0);
 
-      const entry = { rect: z, label, hovered: false, dragActive: false };
-      this.zoneLabels.push(entry);
+    this.elevationGraphics = container;
+    this.placeGroundLayer(container);
+  }
 
-      hitArea.on('pointerenter', () => { entry.hovered = true; label.alpha = 0.7; });
-      hitArea.on('pointerleave', () => { entry.hovered = false; label.alpha = entry.dragActive ? 0.7 : 0; });
+  /** Mud, water and brush patches, drawn just above the hills. */
+  renderTerrainZones(zones: TerrainZone[]): void {
+    this.lastTerrainZones = zones;
+    this.terrainLabels = [];
+    if (this.terrainGraphics) {
+      this.app.stage.removeChild(this.terrainGraphics);
+      this.terrainGraphics.destroy({ children: true });
+    }
+    const container = new Container();
+    const gfx = new Graphics();
 
-      container.addChild(label);
-      container.addChild(hitArea);
+    for (const z of zones) {
+      this.drawTerrainZone(gfx, z);
+      this.terrainLabels.push(this.addZoneLabel(container, z, TERRAIN_DEFS[z.kind].label, this.theme.terrainLabel));
     }
 
     container.addChild(gfx);
     container.setChildIndex(gfx, 0);
 
-    this.elevationGraphics = container;
-    this.app.stage.addChildAt(this.elevationGraphics, 2);
+    this.terrainGraphics = container;
+    this.placeGroundLayer(container);
+  }
+
+  /** Ground layers from the bottom up; each slots in just above whichever lower ones exist. */
+  private placeGroundLayer(layer: Container): void {
+    const order = [this.elevationGraphics, this.terrainGraphics, this.coverGraphics, this.obstacleGraphics];
+    let index = 2;
+    for (const below of order.slice(0, order.indexOf(layer))) {
+      if (below) index = this.app.stage.getChildIndex(below) + 1;
+    }
+    this.app.stage.addChildAt(layer, Math.min(index, this.app.stage.children.length));
+  }
+
+  private drawTerrainZone(gfx: Graphics, z: TerrainZone): void {
+    const color = this.terrainColor(z.kind);
+    gfx.roundRect(z.x, z.y, z.w, z.h, 10);
+    gfx.fill({ color, alpha: z.kind === 'brush' ? 0.35 : 0.5 });
+
+    if (z.kind === 'water') {
+      // Gentle ripples across the pool
+      gfx.setStrokeStyle({ width: 1, color: this.theme.terrainRipple, alpha: 0.35 });
+      for (let y = z.y + 10; y < z.y + z.h - 6; y += 12) {
+        const inset = 8 + stableNoise(z.x, y, 0) * 12;
+        gfx.moveTo(z.x + inset, y);
+        for (let x = z.x + inset; x < z.x + z.w - inset; x += 8) {
+          gfx.quadraticCurveTo(x + 2, y - 2, x + 4, y);
+          gfx.quadraticCurveTo(x + 6, y + 2, x + 8, y);
+        }
+        gfx.stroke();
+      }
+    } else {
+      // Puddles for mud, tufts for brush — scattered but stable between redraws
+      const count = Math.round((z.w * z.h) / 400);
+      const size = z.kind === 'brush' ? 6 : 4;
+      for (let i = 0; i < count; i++) {
+        const px = z.x + size + stableNoise(z.x, z.y, i) * (z.w - size * 2);
+        const py = z.y + size + stableNoise(z.y, z.x, i) * (z.h - size * 2);
+        const r = size * (0.5 + stableNoise(px, py, i) * 0.7);
+        gfx.circle(px, py, r);
+        gfx.fill({ color, alpha: z.kind === 'brush' ? 0.6 : 0.4 });
+      }
+    }
+  }
+
+  private terrainColor(kind: TerrainKind): number {
+    if (kind === 'mud') return this.theme.terrainMud;
+    if (kind === 'water') return this.theme.terrainWater;
+    return this.theme.terrainBrush;
   }
 
-  renderObstacles(obstacles: Obstacle[]): void {
+  /** Invisible hit area plus a label that shows while hovered or while a path ends inside the zone. */
+  private addZoneLabel(container: Container, rect: Obstacle, text: string, fill: string): ZoneLabel {
+    const hitArea = new Graphics();
+    hitArea.roundRect(rect.x, rect.y, rect.w, rect.h, 6);
+    hitArea.fill({ color: 0x000000, alpha: 0.001 });
+    hitArea.eventMode = 'static';
+    hitArea.cursor = 'default';
+
+    const label = new Text({
+      text,
+      style: {
+        fontSize: 14,
+        fontFamily: 'monospace',
+        fill,
+        fontWeight: 'bold',
+      },
+    });
+    label.alpha = 0;
+    label.anchor.set(0.5, 0.5);
+    label.x = rect.x + rect.w / 2;
+    label.y = rect.y + rect.h / 2;
+
+    const entry: ZoneLabel = { rect, label, hovered: false, dragActive: false };
+
+    hitArea.on('pointerenter', () => { entry.hovered = true; label.alpha = 0.7; });
+    hitArea.on('pointerleave', () => { entry.hovered = false; label.alpha = entry.dragActive ? 0.7 : 0; });
+
+    container.addChild(label);
+    container.addChild(hitArea);
+    return entry;
+  }
+
+  /** Draw standing blocks (merged into outlines, cracked when damaged) over the rubble of broken ones. */
+  renderObstacles(obstacles: Obstacle[], rubble: Obstacle[] = []): void {
     this.lastObstacles = obstacles;
+    this.lastRubble = rubble;
     if (this.obstacleGraphics) {
       this.app.stage.removeChild(this.obstacleGraphics);
       this.obstacleGraphics.destroy({ children: true });
@@ -160,13 +260,88 @@ export class Renderer {
     const wrapper = new Container();
     this.obstacleGraphics = wrapper;
 
+    if (rubble.length > 0) wrapper.addChild(this.drawRubble(rubble));
+
     if (this.theme.sketchyObstacles) {
       this.renderSketchyObstacles(wrapper, obstacles);
     } else {
       this.renderCleanObstacles(wrapper, obstacles);
     }
 
-    this.app.stage.addChildAt(this.obstacleGraphics, 3);
+    const damaged = obstacles.filter(o => obstacleStage(o) > 0);
+    if (damaged.length > 0) wrapper.addChild(this.drawCracks(damaged));
+
+    this.placeGroundLayer(this.obstacleGraphics);
+  }
+
+  /** Low cover walls: lighter and hatched so they read as something to crouch behind, not a wall. */
+  renderCoverBlocks(covers: CoverBlock[]): void {
+    this.lastCoverBlocks = covers;
+    if (this.coverGraphics) {
+      this.app.stage.removeChild(this.coverGraphics);
+      this.coverGraphics.destroy();
+    }
+    const g = new Graphics();
+    for (const c of covers) {
+      g.roundRect(c.x, c.y, c.w, c.h, 2);
+      g.fill({ color: this.theme.coverFill });
+      g.setStrokeStyle({ width: 1, color: this.theme.coverBorder });
+      g.stroke();
+
+      // Diagonal hatching along the long side
+      g.setStrokeStyle({ width: 1, color: this.theme.coverBorder, alpha: 0.5 });
+      const long = Math.max(c.w, c.h);
+      const short = Math.min(c.w, c.h);
+      for (let t = 4; t < long - 2; t += 6) {
+        const reach = Math.min(short, long - t);
+        if (c.w >= c.h) {
+          g.moveTo(c.x + t, c.y + c.h);
+          g.lineTo(c.x + t + reach, c.y + c.h - reach);
+        } else {
+          g.moveTo(c.x, c.y + t);
+          g.lineTo(c.x + reach, c.y + t + reach);
+        }
+        g.stroke();
+      }
+    }
+    this.coverGraphics = g;
+    this.placeGroundLayer(g);
+  }
+
+  /** Scattered pebbles where a block used to be. Seeded by position so redraws don't shuffle them. */
+  private drawRubble(rubble: Obstacle[]): Graphics {
+    const g = new Graphics();
+    for (const o of rubble) {
+      const count = 6 + Math.floor((o.w * o.h) / 150);
+      for (let i = 0; i < count; i++) {
+        const rx = stableNoise(o.x, o.y, i * 3);
+        const ry = stableNoise(o.x, o.y, i * 3 + 1);
+        const size = 2 + stableNoise(o.x, o.y, i * 3 + 2) * 4;
+        g.rect(o.x + rx * o.w - size / 2, o.y + ry * o.h - size / 2, size, size);
+      }
+      g.fill({ color: this.theme.obstacleBorder, alpha: 0.45 });
+    }
+    return g;
+  }
+
+  /** Zig-zag cracks from a corner; more of them the closer a block is to breaking. */
+  private drawCracks(obstacles: Obstacle[]): Graphics {
+    const g = new Graphics();
+    for (const o of obstacles) {
+      const cracks = obstacleStage(o) * 2;
+      for (let c = 0; c < cracks; c++) {
+        let x = o.x + stableNoise(o.x, o.y, c * 11) * o.w;
+        let y = o.y;
+        g.moveTo(x, y);
+        for (let s = 1; s <= 4; s++) {
+          x = Math.max(o.x, Math.min(o.x + o.w, x + (stableNoise(o.x, o.y, c * 11 + s) - 0.5) * o.w * 0.4));
+          y = o.y + (o.h * s) / 5;
+          g.lineTo(x, y);
+        }
+      }
+      g.stroke({ width: 1.5, color: this.theme.obstacleBorder, alpha: 0.9 });
+    }
+    return g;
   }
 
   /** Draw a rectilinear polygon with rounded corners using arcTo. */
@@ -210,12 +385,6 @@ export class Renderer {
   private renderSketchyObstacles(wrapper: Container, obstacles: Obstacle[]): void {
     const polygons = mergeObstacles(obstacles);
 
-    // Seeded random based on first vertex for stable wobble
-    const seededRandom = (x: number, y: number, i: number) => {
-      const seed = (x * 7919 + y * 104729 + i * 31) | 0;
-      return ((Math.sin(seed) * 43758.5453) % 1 + 1) % 1;
-    };
-
     // Fill using rounded polygon path
     const fills = new Graphics();
     for (const poly of polygons) {
@@ -224,7 +393,7 @@ export class Renderer {
     }
     wrapper.addChild(fills);
 
-    // Two wobbly outline passes per polygon
+    // Two wobbly outline passes per polygon, seeded by the first vertex
     const outlines = new Graphics();
     for (const poly of polygons) {
       const seed0 = poly[0];
@@ -233,7 +402,7 @@ export class Renderer {
 
         for (let i = 0; i < poly.length; i++) {
           const pt = poly[i];
-          const jitter = (seededRandom(seed0.x, seed0.y, pass * poly.length + i) - 0.5) * 1;
+          const jitter = (stableNoise(seed0.x, seed0.y, pass * poly.length + i) - 0.5) * 1;
           const wx = pt.x + jitter;
           const wy = pt.y + jitter;
 
@@ -242,7 +411,7 @@ export class Renderer {
         }
 
         // Close back to first vertex with jitter
-        const j0 = (seededRandom(seed0.x, seed0.y, pass * poly.length) - 0.5) * 1;
+        const j0 = (stableNoise(seed0.x, seed0.y, pass * poly.length) - 0.5) * 1;
         outlines.lineTo(poly[0].x + j0, poly[0].y + j0);
         outlines.stroke();
       }
@@ -252,7 +421,7 @@ export class Renderer {
 
   /** Show zone labels for zones containing pos; hide the rest (unless hovered). */
   highlightZonesAt(pos: Vec2 | null): void {
-    for (const zl of this.zoneLabels) {
+    for (const zl of [...this.zoneLabels, ...this.terrainLabels]) {
       const inside = pos !== null &&
         pos.x >= zl.rect.x && pos.x <= zl.rect.x + zl.rect.w &&
         pos.y >= zl.rect.y && pos.y <= zl.rect.y + zl.rect.h;
@@ -296,12 +465,11 @@ export class Renderer {
 
       // Rotate gun barrel
       (container.getChildAt(1) as Graphics).rotation = unit.gunAngle;
-      // Rotate body with the gun for person-shaped units
-      if (unit.type === 'soldier' || unit.type === 'sniper' || unit.type === 'zombie' || unit.type === 'shielder' || unit.type === 'bomber') {
-        (container.getChildAt(0) as Graphics).rotation = unit.gunAngle + Math.PI / 2;
-      }
-      if (unit.type === 'blade') {
+      // Spinning bodies turn on their own; everyone else turns with the gun
+      if (unitDef(unit.type).look.spin) {
         (container.getChildAt(0) as Graphics).rotation = Date.now() / 150;
+      } else {
+        (container.getChildAt(0) as Graphics).rotation = unit.gunAngle + Math.PI / 2;
       }
 
       // Idle breathing pulse when stationary
@@ -320,6 +488,8 @@ export class Renderer {
       } else {
         hpBar.clear();
       }
+
+      this.updateStatusGraphic(container, unit);
     }
 
     // Update dying units — fade out over 0.3s
@@ -347,16 +517,17 @@ export class Renderer {
   private createUnitGraphic(unit: Unit): Container {
     const container = new Container();
     const shape = new Graphics();
-    const isZombie = unit.type === 'zombie';
+    const look = unitDef(unit.type).look;
+    const isZombie = look.body === 'blob';
     const color = unit.team === 'blue'
       ? (isZombie ? this.theme.blueZombie : this.theme.blue)
       : (isZombie ? this.theme.redZombie : this.theme.red);
 
-    if (unit.type === 'sniper') {
+    if (look.body === 'diamond') {
       const r = unit.radius;
       shape.poly([-r, 0, 0, -r, r, 0, 0, r]);
       shape.fill(color);
-    } else if (unit.type === 'blade') {
+    } else if (look.body === 'star') {
       const r = unit.radius;
       const inner = r * 0.5;
       const points: number[] = [];
@@ -368,7 +539,7 @@ export class Renderer {
       }
       shape.poly(points);
       shape.fill(color);
-    } else if (unit.type === 'shielder') {
+    } else if (look.body === 'shield') {
       // Wider ellipse body
       shape.ellipse(0, 0, unit.radius * 1.4, unit.radius * 0.9);
       shape.fill(this.theme.shielder);
@@ -377,7 +548,7 @@ export class Renderer {
       const shieldColor = unit.team === 'blue' ? 0x88ccff : 0xffcc88;
       shape.arc(0, 0, arcRadius, -Math.PI / 2 - Math.PI / 3, -Math.PI / 2 + Math.PI / 3);
       shape.stroke({ width: 3, color: shieldColor, alpha: 0.8 });
-    } else if (unit.type === 'bomber') {
+    } else if (look.body === 'pulse') {
       // Pulsing circle — pulse speed increases as HP drops
       const hpRatio = unit.hp / unit.maxHp;
       const pulseSpeed = 2 + (1 - hpRatio) * 8; // faster as HP drops
@@ -388,20 +559,42 @@ export class Renderer {
       // Inner glow
       shape.circle(0, 0, r * 0.5);
       shape.fill({ color: 0xffff00, alpha: 0.3 + (1 - hpRatio) * 0.4 });
-    } else if (unit.type === 'zombie') {
+    } else if (look.body === 'blob') {
       const darkColor = unit.team === 'blue' ? this.theme.blueDark : this.theme.redDark;
       shape.ellipse(0, 0, unit.radius * 1.3, unit.radius * 0.9);
       shape.fill({ color: darkColor, alpha: 0.5 });
       shape.ellipse(0, 0, unit.radius, unit.radius * 0.7);
       shape.fill(color);
+    } else if (look.body === 'hex') {
+      const r = unit.radius;
+      const points: number[] = [];
+      for (let i = 0; i < 6; i++) {
+        const a = (Math.PI / 3) * i;
+        points.push(r * Math.cos(a), r * Math.sin(a));
+      }
+      shape.poly(points);
+      shape.fill(color);
+    } else if (look.body === 'cross') {
+      // Team-coloured disc with a medic cross
+      const r = unit.radius;
+      const arm = r * 0.3;
+      shape.circle(0, 0, r);
+      shape.fill(color);
+      shape.rect(-r * 0.7, -arm, r * 1.4, arm * 2);
+      shape.rect(-arm, -r * 0.7, arm * 2, r * 1.4);
+      shape.fill(this.theme.medic);
     } else {
       shape.ellipse(0, 0, unit.radius, unit.radius * 0.7);
       shape.fill(color);
     }
 
     const nose = new Graphics();
-    if (unit.type !== 'zombie' && unit.type !== 'blade' && unit.type !== 'shielder' && unit.type !== 'bomber') {
-      if (unit.type === 'sniper') {
+    if (look.barrel !== 'none') {
+      if (look.barrel === 'stubby') {
+        // Short, wide mortar tube
+        nose.rect(unit.radius - 1, -3, unit.radius * 0.6 + 1, 6);
+        nose.fill({ color: this.theme.barrel, alpha: this.theme.barrelAlpha });
+      } else if (look.barrel === 'long') {
         const nr = unit.radius * 1.4;
         nose.rect(unit.radius - 1, -1.5, nr + 1, 3);
         nose.fill({ color: this.theme.barrel, alpha: this.theme.barrelAlpha });
@@ -419,9 +612,48 @@ export class Renderer {
     this.updateHealthBar(hpBar, unit);
     container.addChild(hpBar);
 
+    // Status icons and shield ring (child index 3)
+    container.addChild(new Graphics());
+
     return container;
   }
 
+  private statusColor(kind: StatusKind): number {
+    switch (kind) {
+      case 'slow': return this.theme.statusSlow;
+      case 'burn': return this.theme.statusBurn;
+      case 'stun': return this.theme.statusStun;
+      case 'shielded': return this.theme.statusShield;
+    }
+  }
+
+  /** Tint the body for the most disabling effect, ring shielded units, and dot the rest above the HP bar. */
+  private updateStatusGraphic(container: Container, unit: Unit): void {
+    const shape = container.getChildAt(0) as Graphics;
+    const gfx = container.getChildAt(3) as Graphics;
+    gfx.clear();
+    const kinds = new Set(unit.statusEffects?.map(e => e.kind));
+
+    const tintKind = (['stun', 'burn', 'slow'] as const).find(k => kinds.has(k));
+    shape.tint = tintKind ? this.statusColor(tintKind) : 0xffffff;
+    if (kinds.size === 0) return;
+
+    if (kinds.has('shielded')) {
+      gfx.circle(0, 0, unit.radius + 4);
+      gfx.stroke({ width: 2, color: this.theme.statusShield, alpha: 0.7 });
+    }
+
+    const size = 2.5;
+    const gap = 3;
+    const y = -(unit.radius + 12);
+    let x = -((kinds.size - 1) * (size * 2 + gap)) / 2;
+    for (const kind of kinds) {
+      gfx.circle(x, y, size);
+      gfx.fill(this.statusColor(kind));
+      x += size * 2 + gap;
+    }
+  }
+
   private updateHealthBar(bar: Graphics, unit: Unit): void {
     bar.clear();
     const w = unit.radius * 2.5;
@@ -446,6 +678,11 @@ export class Renderer {
     for (const p of projectiles) {
       const color = p.team === 'blue' ? this.theme.blueProjectile : this.theme.redProjectile;
 
+      if (p.shell) {
+        this.drawShell(p, color);
+        continue;
+      }
+
       // Draw trail
       if (p.trail && p.trail.length > 1) {
         for (let i = 1; i < p.trail.length; i++) {
@@ -464,6 +701,46 @@ export class Renderer {
     this.app.stage.addChild(this.projectileGraphics);
   }
 
+  /** Landing ring on the ground, a shadow under the shell, and the shell itself up on its arc. */
+  private drawShell(p: Projectile, color: number): void {
+    const g = this.projectileGraphics!;
+    const { flightTime, elapsed, blastRadius } = p.shell!;
+    const t = Math.min(1, elapsed / flightTime);
+
+    // Ring tightens as the shell comes down
+    g.circle(p.target.x, p.target.y, blastRadius);
+    g.fill({ color, alpha: 0.06 + 0.12 * t });
+    g.circle(p.target.x, p.target.y, blastRadius);
+    g.stroke({ width: 1.5, color, alpha: 0.3 + 0.5 * t });
+
+    const speed = Math.sqrt(p.vel.x * p.vel.x + p.vel.y * p.vel.y);
+    const height = Math.sin(Math.PI * t) * speed * flightTime * SHELL_ARC_HEIGHT;
+    g.circle(p.pos.x, p.pos.y, p.radius * 0.8);
+    g.fill({ color: 0x000000, alpha: 0.25 });
+    g.circle(p.pos.x, p.pos.y - height, p.radius);
+    g.fill(color);
+  }
+
+  /** Faded outlines where fogged enemies were last seen. */
+  renderGhosts(ghosts: Unit[]): void {
+    if (!this.ghostGraphics) {
+      this.ghostGraphics = new Graphics();
+      this.app.stage.addChild(this.ghostGraphics);
+    }
+    const g = this.ghostGraphics;
+    g.clear();
+    for (const ghost of ghosts) {
+      const color = ghost.team === 'blue' ? this.theme.blue : this.theme.red;
+      g.circle(ghost.pos.x, ghost.pos.y, ghost.radius);
+      g.fill({ color, alpha: 0.12 });
+      g.circle(ghost.pos.x, ghost.pos.y, ghost.radius);
+      g.stroke({ width: 1.5, color, alpha: 0.4 });
+      g.moveTo(ghost.pos.x, ghost.pos.y);
+      g.lineTo(ghost.pos.x + Math.cos(ghost.gunAngle) * ghost.radius * 1.5, ghost.pos.y + Math.sin(ghost.gunAngle) * ghost.radius * 1.5);
+      g.stroke({ width: 1, color, alpha: 0.4 });
+    }
+  }
+
   getUnitContainer(id: string): Container | undefined {
     return this.unitGraphics.get(id);
   }
@@ -478,7 +755,9 @@ export class Renderer {
     this.drawBackground();
     // Re-render terrain with new colors
     if (this.lastElevationZones.length > 0) this.renderElevationZones(this.lastElevationZones);
-    if (this.lastObstacles.length > 0) this.renderObstacles(this.lastObstacles);
+    if (this.lastTerrainZones.length > 0) this.renderTerrainZones(this.lastTerrainZones);
+    if (this.lastCoverBlocks.length > 0) this.renderCoverBlocks(this.lastCoverBlocks);
+    if (this.lastObstacles.length > 0 || this.lastRubble.length > 0) this.renderObstacles(this.lastObstacles, this.lastRubble);
     // Rebuild unit graphics with new colors
     for (const [, container] of this.unitGraphics) {
       this.app.stage.removeChild(container);
@@ -1,6 +1,7 @@
 import { Renderer } from './renderer';
-import { ReplayData, ReplayEvent, Unit, Projectile, Team, Vec2 } from './types';
+import { ReplayData, ReplayEvent, Unit, Projectile, Team, Vec2, Obstacle } from './types';
 import { FLANK_DAMAGE_MULTIPLIER } from './constants';
+import { damageObstacle, obstacleStage } from './destructible';
 
 export type ReplayEventCallback = (event: 'frame' | 'end', data?: { time: number; duration: number }) => void;
 
@@ -14,19 +15,23 @@ export class ReplayPlayer {
   private paused = false;
   private running = false;
   private tickBound: (ticker: { deltaMS: number }) => void;
-  private readonly fps = 60; // assumed recording rate
+  private readonly fps: number; // recording rate, one frame per simulation step
+  private terrain: Obstacle[] = []; // obstacles as they stand at the current frame
 
   constructor(renderer: Renderer, data: ReplayData, onEvent: ReplayEventCallback) {
     this.renderer = renderer;
     this.data = data;
     this.onEvent = onEvent;
+    this.fps = data.stepRate;
     this.tickBound = this.tick.bind(this);
   }
 
   start(): void {
     this.renderer.bloodEnabled = true;
     this.renderer.renderElevationZones(this.data.elevationZones);
-    this.renderer.renderObstacles(this.data.obstacles);
+    this.renderer.renderTerrainZones(this.data.terrainZones ?? []);
+    this.resetTerrain();
+    this.renderer.renderCoverBlocks(this.data.coverBlocks ?? []);
     this.frameIndex = 0;
     this.accumulator = 0;
     this.paused = false;
@@ -90,18 +95,21 @@ export class ReplayPlayer {
       projectileSpeed: 0,
       projectileRadius: 0,
       turnSpeed: 0,
+      // Only the kinds matter for drawing
+      statusEffects: s.statuses?.map(kind => ({ kind, remaining: 0, magnitude: 0 })),
     }));
 
     const projectiles: Projectile[] = frame.projectiles.map(s => ({
       pos: { x: s.x, y: s.y },
       vel: { x: s.vx, y: s.vy },
-      target: { x: 0, y: 0 },
+      target: s.target ?? { x: 0, y: 0 },
       damage: s.damage,
       radius: s.radius,
       team: s.team,
       maxRange: s.maxRange,
       distanceTraveled: s.distanceTraveled,
       trail: s.trail,
+      shell: s.shell,
     }));
 
     const dt = 1 / this.fps;
@@ -109,13 +117,36 @@ export class ReplayPlayer {
     this.renderer.renderProjectiles(projectiles);
   }
 
+  private resetTerrain(): void {
+    this.terrain = this.data.obstacles.map(o => ({ ...o }));
+    this.renderer.renderObstacles(this.terrain);
+  }
+
+  /** Rebuild terrain from an obstacle-damage event; true when the block now looks different. */
+  private damageTerrain(event: ReplayEvent): boolean {
+    const block = event.obstacleIndex !== undefined ? this.terrain[event.obstacleIndex] : undefined;
+    if (!block) return false;
+    const stage = obstacleStage(block);
+    if (damageObstacle(block, event.damage)) {
+      this.renderer.effects?.addDebris(block);
+      return true;
+    }
+    return obstacleStage(block) !== stage;
+  }
+
   private triggerEvents(frameIndex: number): void {
     const fx = this.renderer.effects;
-    if (!fx) return;
+    let terrainChanged = false;
 
     for (const event of this.data.events) {
       if (event.frame !== frameIndex) continue;
 
+      if (event.type === 'obstacle-damage') {
+        if (this.damageTerrain(event)) terrainChanged = true;
+        continue;
+      }
+      if (!fx) continue;
+
       if (event.type === 'fire') {
         fx.addMuzzleFlash(event.pos, event.angle, 6);
       } else if (event.type === 'hit') {
@@ -129,8 +160,18 @@ export class ReplayPlayer {
         fx.addBloodSpray(event.pos, event.angle, victimTeam, effectDamage);
         fx.addBloodBurst(event.pos, event.angle, victimTeam, effectDamage);
         fx.addKillText(event.pos, event.team);
+      } else if (event.type === 'blast') {
+        fx.addShellBlast(event.pos, event.radius ?? 0, event.team);
+      } else if (event.type === 'heal') {
+        fx.addHealPulse(event.pos);
       }
     }
+
+    if (terrainChanged) {
+      const standing = this.terrain.filter(o => o.hp === undefined || o.hp > 0);
+      const rubble = this.terrain.filter(o => o.hp !== undefined && o.hp <= 0);
+      this.renderer.renderObstacles(standing, rubble);
+    }
   }
 
   pause(): void {
@@ -158,6 +199,7 @@ export class ReplayPlayer {
     this.accumulator = 0;
     this.paused = false;
     this.renderer.effects?.clear();
+    this.resetTerrain();
     this.renderFrame(0);
   }
 
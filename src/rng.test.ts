@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, randomSeed, normalizeSeed } from './rng';
+
+describe('createRng', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = createRng('map42');
+    const b = createRng('map42');
+    for (let i = 0; i < 10; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(createRng(' MAP42 ')()).toBe(createRng('map42')());
+  });
+
+  it('returns floats in [0, 1)', () => {
+    const rng = createRng('range');
+    for (let i = 0; i < 1000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
+
+describe('randomSeed', () => {
+  it('returns a short normalized string', () => {
+    const seed = randomSeed();
+    expect(seed).toHaveLength(6);
+    expect(normalizeSeed(seed)).toBe(seed);
+  });
+});
@@ -0,0 +1,36 @@
+/** Random source returning floats in [0, 1) — drop-in for Math.random. */
+export type Rng = () => number;
+
+const SEED_LENGTH = 6;
+
+/** Hash a seed string into 32 bits (FNV-1a). */
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Seeded PRNG (mulberry32). The same seed always yields the same sequence. */
+export function createRng(seed: string): Rng {
+  let state = hashSeed(normalizeSeed(seed));
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Short base-36 seed that is easy to read out and type back in. */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 36 ** SEED_LENGTH).toString(36).padStart(SEED_LENGTH, '0');
+}
+
+/** Trim and lowercase so "AB12 " and "ab12" share a map. */
+export function normalizeSeed(seed: string): string {
+  return seed.trim().toLowerCase();
+}
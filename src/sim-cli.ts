@@ -0,0 +1,64 @@
+/// <reference types="node" />
+// Batch balance simulator — `npm run sim -- --help`
+import { parseArgs } from 'node:util';
+import { ARMY_COMPOSITION } from './constants';
+import { runBatch, runHordeCurve, formatReport, formatCurve, parseComposition } from './balance';
+import { randomSeed } from './rng';
+
+const USAGE = `Usage: npm run sim -- [options]
+
+  --blue <spec>     Blue army, e.g. soldier:3,sniper:1 (default: standard army)
+  --red <spec>      Red army (default: standard army)
+  --battles <n>     Battles to run (default: 50)
+  --seed <seed>     Base seed; battle i uses "<seed>-i" (default: random)
+  --rounds <n>      Rounds before a battle is a draw (default: 12)
+  --horde           Use the horde map and spawn layout
+  --horde-curve     Fight every horde wave with the blue army instead
+  --json            Print JSON instead of a table
+  --help            Show this message`;
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      blue: { type: 'string' },
+      red: { type: 'string' },
+      battles: { type: 'string', default: '50' },
+      seed: { type: 'string' },
+      rounds: { type: 'string' },
+      horde: { type: 'boolean', default: false },
+      'horde-curve': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const blue = values.blue ? parseComposition(values.blue) : ARMY_COMPOSITION;
+  const red = values.red ? parseComposition(values.red) : ARMY_COMPOSITION;
+  const battles = Number(values.battles);
+  const maxRounds = values.rounds ? Number(values.rounds) : undefined;
+  const seed = values.seed ?? randomSeed();
+  if (!Number.isInteger(battles) || battles < 1) throw new Error('--battles must be a positive integer');
+  if (maxRounds !== undefined && (!Number.isInteger(maxRounds) || maxRounds < 1)) throw new Error('--rounds must be a positive integer');
+
+  if (values['horde-curve']) {
+    const curve = runHordeCurve({ blue, battles, seed, maxRounds });
+    console.log(values.json ? JSON.stringify({ seed, blue, curve }, null, 2) : `Seed: ${seed}\n${formatCurve(curve)}`);
+    return;
+  }
+
+  const report = runBatch({ blue, red, battles, seed, horde: values.horde, maxRounds });
+  console.log(values.json ? JSON.stringify({ seed, blue, red, report }, null, 2) : `Seed: ${seed}\n${formatReport(report)}`);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
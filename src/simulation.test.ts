@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import { BattleSimulation, SimEvent } from './simulation';
+import { createUnit } from './units';
+import { ROUND_DURATION_S, SIM_TICK_RATE, SIM_STEP_S } from './constants';
+import { createRng } from './rng';
+import { Unit } from './types';
+import { destructibleBlock } from './destructible';
+
+const DT = SIM_STEP_S;
+
+function runRound(sim: BattleSimulation): SimEvent[] {
+  const events: SimEvent[] = [];
+  sim.startRound();
+  for (let i = 0; i < ROUND_DURATION_S * SIM_TICK_RATE + 10; i++) {
+    const stepEvents = sim.step(DT);
+    events.push(...stepEvents);
+    if (stepEvents.some(e => e.type === 'round-end' || e.type === 'battle-end')) break;
+  }
+  return events;
+}
+
+describe('BattleSimulation', () => {
+  it('fires and hits when enemies are in range', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 320 });
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events.some(e => e.type === 'fire')).toBe(true);
+    expect(events.some(e => e.type === 'hit' || e.type === 'kill')).toBe(true);
+    expect(blue.hp + red.hp).toBeLessThan(blue.maxHp + red.maxHp);
+  });
+
+  it('ends the round when nothing is happening', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 900, y: 100 });
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events[events.length - 1].type).toBe('round-end');
+    expect(sim.elapsedTime).toBeLessThan(1);
+  });
+
+  it('ends the round when the timer runs out', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 900, y: 100 });
+    blue.waypoints = [{ x: 100, y: 100 }, { x: 1100, y: 100 }, { x: 1100, y: 700 }];
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events[events.length - 1].type).toBe('round-end');
+    expect(sim.elapsedTime).toBeCloseTo(ROUND_DURATION_S, 1);
+  });
+
+  it('emits battle-end with the winner on elimination', () => {
+    const blue = createUnit('blue_sniper_0', 'sniper', 'blue', { x: 300, y: 500 });
+    const red = createUnit('red_zombie_0', 'zombie', 'red', { x: 300, y: 300 });
+    blue.damage = 9999;
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events).toContainEqual({ type: 'battle-end', winner: 'blue' });
+    expect(sim.isOver).toBe(true);
+    expect(sim.step(DT)).toEqual([]);
+  });
+
+  it('tags bomber explosions with the explosion source', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 500 });
+    const bomber = createUnit('red_bomber_0', 'bomber', 'red', { x: 300, y: 420 });
+    const zombie = createUnit('red_zombie_0', 'zombie', 'red', { x: 900, y: 100 });
+    blue.damage = 9999;
+    blue.gunAngle = -Math.PI / 2;
+    const sim = new BattleSimulation({ units: [blue, bomber, zombie], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events.some(e => (e.type === 'hit' || e.type === 'kill') && e.source === 'explosion')).toBe(true);
+  });
+
+  it('grenadiers shell enemies hiding behind obstacles', () => {
+    const grenadier = createUnit('blue_grenadier_0', 'grenadier', 'blue', { x: 300, y: 500 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 320 });
+    const wall = { x: 250, y: 400, w: 100, h: 20 };
+    grenadier.gunAngle = -Math.PI / 2;
+    const sim = new BattleSimulation({ units: [grenadier, red], obstacles: [wall], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events.some(e => e.type === 'blast')).toBe(true);
+    expect(events.some(e => (e.type === 'hit' || e.type === 'kill') && e.source === 'explosion' && e.targetId === red.id)).toBe(true);
+  });
+
+  it('units wading through water hold their fire', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 320 });
+    const water = { x: 250, y: 350, w: 100, h: 100, kind: 'water' as const };
+    blue.gunAngle = -Math.PI / 2;
+    red.gunAngle = Math.PI / 2;
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [], terrainZones: [water] });
+
+    const events = runRound(sim);
+
+    expect(events.some(e => e.type === 'fire' && e.unitId === red.id)).toBe(true);
+    expect(events.some(e => e.type === 'fire' && e.unitId === blue.id)).toBe(false);
+  });
+
+  it('shells wear down the blocks they land near', () => {
+    const grenadier = createUnit('blue_grenadier_0', 'grenadier', 'blue', { x: 300, y: 500 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 320 });
+    const wall = destructibleBlock(250, 340, 100, 20);
+    grenadier.gunAngle = -Math.PI / 2;
+    const sim = new BattleSimulation({ units: [grenadier, red], obstacles: [wall], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events.some(e => e.type === 'obstacle' && e.index === 0 && e.damage > 0)).toBe(true);
+    expect(sim.obstacles[0].hp).toBeLessThan(wall.maxHp!);
+    // The caller's map is left untouched
+    expect(wall.hp).toBe(wall.maxHp);
+  });
+
+  it('removes a block once a bomber blast breaks it', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 500 });
+    const bomber = createUnit('red_bomber_0', 'bomber', 'red', { x: 300, y: 420 });
+    const zombie = createUnit('red_zombie_0', 'zombie', 'red', { x: 900, y: 100 });
+    const crate = destructibleBlock(340, 400, 10, 10);
+    blue.damage = 9999;
+    blue.gunAngle = -Math.PI / 2;
+    const sim = new BattleSimulation({ units: [blue, bomber, zombie], obstacles: [crate], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'obstacle', index: 0, destroyed: true }));
+    expect(sim.obstacles).toHaveLength(0);
+    expect(sim.rubble).toHaveLength(1);
+  });
+
+  it('shoots the focus target over a nearer enemy', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const near = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 340 });
+    const focus = createUnit('red_soldier_1', 'soldier', 'red', { x: 390, y: 400 });
+    blue.attackTargetId = focus.id;
+    const sim = new BattleSimulation({ units: [blue, near, focus], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+    const blueHits = events.filter(e => (e.type === 'hit' || e.type === 'kill') && e.sourceId === blue.id);
+
+    expect(blueHits.length).toBeGreaterThan(0);
+    expect(blueHits[0]).toMatchObject({ targetId: focus.id });
+  });
+
+  it('shoots a nearer enemy while the focus target is out of range', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const near = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 340 });
+    const focus = createUnit('red_soldier_1', 'soldier', 'red', { x: 300, y: 100 });
+    blue.attackTargetId = focus.id;
+    const sim = new BattleSimulation({ units: [blue, near, focus], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    expect(events.some(e => (e.type === 'hit' || e.type === 'kill') && e.sourceId === blue.id && e.targetId === near.id)).toBe(true);
+    expect(blue.attackTargetId).toBe(focus.id);
+  });
+
+  it('holds the ordered facing while no enemy is in sight', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 100 });
+    const wall = { x: 250, y: 200, w: 100, h: 50 };
+    blue.facing = 0;
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [wall], elevationZones: [] });
+
+    runRound(sim);
+
+    expect(blue.gunAngle).toBeCloseTo(0, 2);
+  });
+
+  it('turns from its facing towards an enemy it can see', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 100 });
+    blue.facing = 0;
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+
+    runRound(sim);
+
+    expect(blue.gunAngle).toBeCloseTo(-Math.PI / 2, 2);
+  });
+
+  it('releases units on go markers together', () => {
+    const near = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const far = createUnit('blue_soldier_1', 'soldier', 'blue', { x: 400, y: 500 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 900, y: 100 });
+    near.waypoints = [{ x: 120, y: 700, sync: true }, { x: 120, y: 600 }];
+    far.waypoints = [{ x: 400, y: 700, sync: true }, { x: 400, y: 600 }];
+    const sim = new BattleSimulation({ units: [near, far, red], obstacles: [], elevationZones: [] });
+
+    // Time at which each unit heads off its go marker
+    const left: Record<string, number> = {};
+    sim.startRound();
+    for (let i = 0; i < ROUND_DURATION_S * SIM_TICK_RATE; i++) {
+      sim.step(DT);
+      for (const u of [near, far]) {
+        if (left[u.id] === undefined && u.moveTarget?.y === 600) left[u.id] = sim.elapsedTime;
+      }
+    }
+
+    expect(left[near.id]).toBeGreaterThan(1.5);
+    expect(left[near.id]).toBe(left[far.id]);
+  });
+
+  it('counts a timed pause as activity, not an idle round', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 900, y: 100 });
+    blue.waypoints = [{ x: 110, y: 700, wait: 2 }];
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+
+    runRound(sim);
+
+    expect(sim.elapsedTime).toBeGreaterThan(2);
+  });
+
+  it('drops the focus order once its target dies', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 300, y: 400 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 100 });
+    const other = createUnit('red_soldier_1', 'soldier', 'red', { x: 900, y: 100 });
+    blue.attackTargetId = red.id;
+    const sim = new BattleSimulation({ units: [blue, red, other], obstacles: [], elevationZones: [] });
+
+    sim.step(DT);
+    expect(blue.attackTargetId).toBe(red.id);
+
+    red.alive = false;
+    sim.step(DT);
+    expect(blue.attackTargetId).toBeNull();
+  });
+
+    it('medics heal wounded allies and report heal events', () => {
+    const medic = createUnit('blue_medic_0', 'medic', 'blue', { x: 300, y: 700 });
+    const patient = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 360, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 900, y: 100 });
+    patient.hp = 20;
+    const sim = new BattleSimulation({ units: [medic, patient, red], obstacles: [], elevationZones: [] });
+
+    const events = runRound(sim);
+
+    const heals = events.filter(e => e.type === 'heal');
+    expect(heals.length).toBeGreaterThan(0);
+    expect(heals.every(e => e.type === 'heal' && e.targetId === patient.id && e.unitId === medic.id)).toBe(true);
+    expect(patient.hp).toBeGreaterThan(20);
+    expect(patient.hp).toBeLessThanOrEqual(patient.maxHp);
+  });
+
+    it('replays identically with the same seed and fixed step', () => {
+    const makeArmy = (): Unit[] => [
+      createUnit('blue_soldier_0', 'soldier', 'blue', { x: 500, y: 700 }),
+      createUnit('blue_sniper_0', 'sniper', 'blue', { x: 560, y: 700 }),
+      ...[0, 1, 2, 3, 4].map(i => createUnit(`red_zombie_${i}`, 'zombie', 'red', { x: 300 + i * 100, y: 200 })),
+    ];
+    const run = () => {
+      const units = makeArmy();
+      const sim = new BattleSimulation({ units, obstacles: [], elevationZones: [], rng: createRng('zombies') });
+      runRound(sim);
+      return units.map(u => [u.pos.x, u.pos.y, u.hp]);
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
@@ -0,0 +1,475 @@
+import { Unit, Obstacle, Projectile, ElevationZone, TerrainZone, CoverBlock, Team, Vec2, StatusEffect, StatusKind } from './types';
+import { ROUND_DURATION_S } from './constants';
+import { Rng } from './rng';
+import { SpatialHash } from './spatial-hash';
+import { moveUnit, separateUnits, findTarget, isInRange, hasLineOfSight, tryFireProjectile, updateProjectiles, advanceWaypoint, updateGunAngle, bladeAoeAttack, explodeOnDeath, applyDamage, findHealTarget, tryHeal } from './units';
+import { unitDef } from './unit-defs';
+import { applyStatus, tickStatusEffects } from './status-effects';
+import { damageObstacle, obstaclesInBlast } from './destructible';
+import { canFireFrom } from './terrain';
+
+export interface FireEvent {
+  type: 'fire';
+  unitId: string;
+  team: Team;
+  pos: Vec2;
+  angle: number;
+  radius: number;
+  damage: number;
+}
+
+/** A unit took damage. `source` tells the renderer which effects to play. */
+export interface HitEvent {
+  type: 'hit' | 'kill';
+  source: 'projectile' | 'melee' | 'explosion' | 'status';
+  targetId: string;
+  /** Team that dealt the damage. */
+  team: Team;
+  /** Unit that dealt the damage, when known. */
+  sourceId?: string;
+  pos: Vec2;
+  angle: number;
+  damage: number;
+  flanked: boolean;
+}
+
+/** A lobbed shell touched down. Damage it dealt follows as 'explosion' hits. */
+export interface BlastEvent {
+  type: 'blast';
+  team: Team;
+  sourceId?: string;
+  pos: Vec2;
+  radius: number;
+}
+
+/** A destructible obstacle took damage. `index` is its position in the obstacle list the battle started with. */
+export interface ObstacleEvent {
+  type: 'obstacle';
+  index: number;
+  damage: number;
+  hp: number;
+  destroyed: boolean;
+  pos: Vec2;
+}
+
+export interface HealEvent {
+  type: 'heal';
+  unitId: string;
+  targetId: string;
+  team: Team;
+  pos: Vec2;
+  amount: number;
+}
+
+/** A status effect started on or wore off a unit. */
+export interface StatusEvent {
+  type: 'status';
+  change: 'apply' | 'expire';
+  unitId: string;
+  kind: StatusKind;
+}
+
+export interface RoundEndEvent {
+  type: 'round-end';
+}
+
+export interface BattleEndEvent {
+  type: 'battle-end';
+  winner: Team;
+}
+
+export type SimEvent = FireEvent | HitEvent | BlastEvent | ObstacleEvent | HealEvent | StatusEvent | RoundEndEvent | BattleEndEvent;
+
+export interface SimulationOptions {
+  units: Unit[];
+  obstacles: Obstacle[];
+  elevationZones: ElevationZone[];
+  /** Mud, water and brush; open ground everywhere when omitted. */
+  terrainZones?: TerrainZone[];
+  /** Low walls that block movement but not sight or shots. */
+  coverBlocks?: CoverBlock[];
+  /** Seconds red stays put at the start of each round. */
+  redStartDelay?: number;
+  /** Random source for in-battle jitter; pass a seeded one for reproducible battles. */
+  rng?: Rng;
+}
+
+/** Pure battle rules: owns the world state and advances it without any rendering. */
+export class BattleSimulation {
+  units: Unit[];
+  projectiles: Projectile[] = [];
+  /** Obstacles still standing. Replaced, not mutated, when one breaks. */
+  obstacles: Obstacle[];
+  /** Obstacles that have been destroyed, for drawing debris. */
+  rubble: Obstacle[] = [];
+  elevationZones: ElevationZone[];
+  terrainZones: TerrainZone[];
+  coverBlocks: CoverBlock[];
+  elapsedTime = 0;
+  roundTimer = 0;
+  private idleTime = 0;
+  private redStartDelay: number;
+  private redDelayLeft = 0;
+  private ended = false;
+  private rng: Rng;
+  private grid = new SpatialHash();
+  private pendingEvents: SimEvent[] = [];
+  private obstacleIndex = new Map<Obstacle, number>();
+
+  constructor(opts: SimulationOptions) {
+    this.units = opts.units;
+    // Own copies — blocks lose HP during the battle and the caller's map may be reused
+    this.obstacles = opts.obstacles.map(o => ({ ...o }));
+    this.obstacles.forEach((o, i) => this.obstacleIndex.set(o, i));
+    this.elevationZones = opts.elevationZones;
+    this.terrainZones = opts.terrainZones ?? [];
+    this.coverBlocks = opts.coverBlocks ?? [];
+    this.redStartDelay = opts.redStartDelay ?? 0;
+    this.rng = opts.rng ?? Math.random;
+  }
+
+  get isOver(): boolean {
+    return this.ended;
+  }
+
+  /** Reset the round clock. Call once per round before stepping. */
+  startRound(): void {
+    this.roundTimer = ROUND_DURATION_S;
+    this.idleTime = 0;
+    this.redDelayLeft = this.redStartDelay;
+  }
+
+  /** Put a status effect on a unit; the apply event goes out with the next step. */
+  applyStatus(unit: Unit, effect: StatusEffect): void {
+    if (applyStatus(unit, effect)) {
+      this.pendingEvents.push({ type: 'status', change: 'apply', unitId: unit.id, kind: effect.kind });
+    }
+  }
+
+  aliveCount(team: Team): number {
+    return this.units.filter(u => u.alive && u.team === team).length;
+  }
+
+  /** Advance the battle by dt seconds and return everything that happened. */
+  step(dt: number): SimEvent[] {
+    if (this.ended) return [];
+
+    const events: SimEvent[] = this.pendingEvents;
+    this.pendingEvents = [];
+    this.elapsedTime += dt;
+    this.roundTimer -= dt;
+
+    this.updateStatusEffects(dt, events);
+
+    // Red start delay — skip red movement so the player can react
+    const redDelayed = this.redDelayLeft > 0;
+    if (redDelayed) this.redDelayLeft -= dt;
+
+    this.grid.rebuild(this.units);
+
+    // Chasers (zombies, shielders, bombers) always head for the closest enemy
+    for (const unit of this.units) {
+      if (!unit.alive || unitDef(unit.type).movement !== 'chase') continue;
+      const target = findTarget(unit, this.units, null, this.obstacles, this.grid, this.terrainZones);
+      if (target) {
+        unit.waypoints = [];
+        unit.moveTarget = { x: target.pos.x, y: target.pos.y };
+      }
+    }
+
+    // Advance waypoints and move — cover blocks stop feet, not bullets
+    const blockers = [...this.obstacles, ...this.coverBlocks];
+    for (const unit of this.units) {
+      if (!unit.alive) continue;
+      if (redDelayed && unit.team === 'red') continue;
+      advanceWaypoint(unit, dt);
+      moveUnit(unit, dt, blockers, this.units, this.rng, this.grid, this.terrainZones);
+    }
+    this.releaseGoMarkers();
+    separateUnits(this.units, blockers, this.grid);
+    // Units moved — re-bucket before combat queries
+    this.grid.rebuild(this.units);
+
+    this.updateCombat(dt, events);
+
+    const { alive: aliveProjectiles, hits, blasts, wallHits } = updateProjectiles(this.projectiles, this.units, dt, this.obstacles, this.grid, this.coverBlocks);
+    this.projectiles = aliveProjectiles;
+
+    for (const wall of wallHits) {
+      this.damageObstacle(wall.obstacle, wall.damage, wall.pos, events);
+    }
+    for (const blast of blasts) {
+      events.push({ type: 'blast', team: blast.team, sourceId: blast.ownerId, pos: blast.pos, radius: blast.radius });
+      this.damageTerrain(blast.pos, blast.radius, blast.damage, events);
+    }
+    for (const hit of hits) {
+      events.push({
+        type: hit.killed ? 'kill' : 'hit',
+        source: hit.blast ? 'explosion' : 'projectile',
+        targetId: hit.targetId,
+        team: hit.team,
+        sourceId: hit.ownerId,
+        pos: { ...hit.pos },
+        angle: hit.angle,
+        damage: hit.damage,
+        flanked: hit.flanked,
+      });
+    }
+
+    // Death explosions (bombers), chaining into each other
+    for (const hit of hits) {
+      if (!hit.killed) continue;
+      const deadUnit = this.units.find(u => u.id === hit.targetId);
+      if (deadUnit) this.deathEffects(deadUnit, events);
+    }
+
+    this.clearDeadFocus();
+
+    // Win condition — elimination
+    const blueAlive = this.aliveCount('blue');
+    const redAlive = this.aliveCount('red');
+    if (blueAlive === 0 || redAlive === 0) {
+      this.ended = true;
+      this.projectiles = [];
+      events.push({ type: 'battle-end', winner: blueAlive === 0 ? 'red' : 'blue' });
+      return events;
+    }
+
+    // Require sustained idle for 0.5s to avoid transient false positives
+    this.idleTime = this.isIdle() ? this.idleTime + dt : 0;
+
+    if (this.roundTimer <= 0 || this.idleTime >= 0.5) {
+      this.projectiles = [];
+      events.push({ type: 'round-end' });
+    }
+
+    return events;
+  }
+
+  /** Run a freshly killed unit's death effect: blast nearby units and blocks. */
+  private deathEffects(deadUnit: Unit, events: SimEvent[]): void {
+    this.explodeTerrain(deadUnit, events);
+    for (const eh of explodeOnDeath(deadUnit, this.units)) {
+      if (eh.killed) {
+        const chained = this.units.find(u => u.id === eh.targetId);
+        if (chained) this.explodeTerrain(chained, events);
+      }
+      events.push({
+        type: eh.killed ? 'kill' : 'hit',
+        source: 'explosion',
+        targetId: eh.targetId,
+        team: deadUnit.team,
+        sourceId: deadUnit.id,
+        pos: eh.pos,
+        angle: 0,
+        damage: eh.damage,
+        flanked: false,
+      });
+    }
+  }
+
+  /** Units with an explode death effect also blow chunks out of nearby blocks. */
+  private explodeTerrain(unit: Unit, events: SimEvent[]): void {
+    const effect = unitDef(unit.type).deathEffect;
+    if (effect.kind === 'explode') this.damageTerrain(unit.pos, effect.radius, effect.damage, events);
+  }
+
+  private damageTerrain(pos: Vec2, radius: number, damage: number, events: SimEvent[]): void {
+    for (const o of obstaclesInBlast(this.obstacles, pos, radius)) {
+      this.damageObstacle(o, damage, { x: o.x + o.w / 2, y: o.y + o.h / 2 }, events);
+    }
+  }
+
+  private damageObstacle(o: Obstacle, damage: number, pos: Vec2, events: SimEvent[]): void {
+    if (o.hp === undefined || o.hp <= 0) return;
+    const destroyed = damageObstacle(o, damage);
+    events.push({ type: 'obstacle', index: this.obstacleIndex.get(o) ?? -1, damage, hp: o.hp, destroyed, pos });
+    if (destroyed) {
+      this.obstacles = this.obstacles.filter(other => other !== o);
+      this.rubble.push(o);
+    }
+  }
+
+  /** Count down status effects and deal damage over time. */
+  private updateStatusEffects(dt: number, events: SimEvent[]): void {
+    for (const unit of this.units) {
+      if (!unit.alive || !unit.statusEffects?.length) continue;
+      const tick = tickStatusEffects(unit, dt);
+      if (tick.damage > 0) {
+        const before = unit.hp;
+        applyDamage(unit, tick.damage);
+        const killed = before > 0 && !unit.alive;
+        events.push({
+          type: killed ? 'kill' : 'hit',
+          source: 'status',
+          targetId: unit.id,
+          team: tick.damageTeam ?? (unit.team === 'blue' ? 'red' : 'blue'),
+          sourceId: tick.damageSourceId,
+          pos: { x: unit.pos.x, y: unit.pos.y },
+          angle: 0,
+          damage: tick.damage,
+          flanked: false,
+        });
+        if (killed) this.deathEffects(unit, events);
+      }
+      for (const kind of tick.expired) {
+        events.push({ type: 'status', change: 'expire', unitId: unit.id, kind });
+      }
+    }
+  }
+
+  /** Combat — auto-target nearest enemy, fire projectiles. */
+  private updateCombat(dt: number, events: SimEvent[]): void {
+    for (const unit of this.units) {
+      if (!unit.alive) continue;
+
+      // Healers look after their own side instead of shooting
+      if (unitDef(unit.type).attack === 'heal') {
+        const patient = findHealTarget(unit, this.units, this.obstacles, this.grid);
+        if (!patient) {
+          unit.fireTimer = Math.max(0, unit.fireTimer - dt);
+          continue;
+        }
+        updateGunAngle(unit, Math.atan2(patient.pos.y - unit.pos.y, patient.pos.x - unit.pos.x), dt);
+        const amount = tryHeal(unit, patient, dt);
+        if (amount > 0) {
+          events.push({
+            type: 'heal',
+            unitId: unit.id,
+            targetId: patient.id,
+            team: unit.team,
+            pos: { x: patient.pos.x, y: patient.pos.y },
+            amount,
+          });
+        }
+        continue;
+      }
+
+      const target = this.pickTarget(unit);
+
+      // Melee units swing an AoE attack instead of firing
+      if (unitDef(unit.type).attack === 'melee-aoe') {
+        const watch = this.watchAngle(unit, target);
+        if (watch !== null) {
+          updateGunAngle(unit, watch, dt);
+        } else if (target) {
+          const desired = Math.atan2(target.pos.y - unit.pos.y, target.pos.x - unit.pos.x);
+          updateGunAngle(unit, desired, dt);
+        }
+        for (const hit of bladeAoeAttack(unit, this.units, dt)) {
+          events.push({
+            type: hit.killed ? 'kill' : 'hit',
+            source: 'melee',
+            targetId: hit.targetId,
+            team: hit.team,
+            sourceId: unit.id,
+            pos: hit.pos,
+            angle: unit.gunAngle,
+            damage: hit.damage,
+            flanked: false,
+          });
+        }
+        continue;
+      }
+
+      const canShoot = target
+        && canFireFrom(unit.pos, this.terrainZones)
+        && isInRange(unit, target, this.elevationZones)
+        && (unitDef(unit.type).indirect || hasLineOfSight(unit.pos, target.pos, this.obstacles));
+      if (canShoot) {
+        const desired = Math.atan2(target.pos.y - unit.pos.y, target.pos.x - unit.pos.x);
+        updateGunAngle(unit, desired, dt);
+        const projectiles = tryFireProjectile(unit, target, dt, this.elevationZones);
+        if (projectiles.length > 0) {
+          this.projectiles.push(...projectiles);
+          events.push({
+            type: 'fire',
+            unitId: unit.id,
+            team: unit.team,
+            pos: { x: unit.pos.x, y: unit.pos.y },
+            angle: unit.gunAngle,
+            radius: unit.radius,
+            damage: projectiles[0].damage,
+          });
+        }
+      } else {
+        unit.fireTimer = Math.max(0, unit.fireTimer - dt);
+        const watch = this.watchAngle(unit, target);
+        if (watch !== null) {
+          // Parked with nothing in sight — hold the ordered watch direction
+          updateGunAngle(unit, watch, dt);
+        } else if (target) {
+          // Out of range but enemy exists — face them
+          const desired = Math.atan2(target.pos.y - unit.pos.y, target.pos.x - unit.pos.x);
+          updateGunAngle(unit, desired, dt);
+        } else {
+          const speed = Math.sqrt(unit.vel.x * unit.vel.x + unit.vel.y * unit.vel.y);
+          if (speed > 1) {
+            const desired = Math.atan2(unit.vel.y, unit.vel.x);
+            updateGunAngle(unit, desired, dt);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Honour a focus-fire order while its target is visible; when it's out of range,
+   * shoot whatever nearer enemy is in range meanwhile.
+   */
+  private pickTarget(unit: Unit): Unit | null {
+    const target = findTarget(unit, this.units, unit.attackTargetId, this.obstacles, this.grid, this.terrainZones);
+    if (!target || target.id !== unit.attackTargetId || isInRange(unit, target, this.elevationZones)) return target;
+    const nearest = findTarget(unit, this.units, null, this.obstacles, this.grid, this.terrainZones);
+    return nearest && isInRange(unit, nearest, this.elevationZones) ? nearest : target;
+  }
+
+  /** The unit's ordered facing, once it has stopped and has no target in sight; null otherwise. */
+  private watchAngle(unit: Unit, target: Unit | null): number | null {
+    if (unit.facing === undefined || unit.waypoints.length > 0) return null;
+    if (unit.vel.x * unit.vel.x + unit.vel.y * unit.vel.y > 1) return null;
+    if (target && (unitDef(unit.type).indirect || hasLineOfSight(unit.pos, target.pos, this.obstacles))) return null;
+    return unit.facing;
+  }
+
+  /** Once every unit on a team with a go marker ahead is parked on it, send them all on together. */
+  private releaseGoMarkers(): void {
+    for (const team of ['blue', 'red'] as const) {
+      const pending = this.units.filter(u => u.alive && u.team === team
+        && (u.moveTarget?.sync || u.waypoints.some(w => w.sync)));
+      if (pending.length === 0 || !pending.every(u => u.awaitingGo)) continue;
+      for (const unit of pending) {
+        unit.awaitingGo = false;
+        unit.holdTime = undefined;
+        unit.moveTarget = unit.waypoints.shift() ?? null;
+      }
+    }
+  }
+
+  /** Focus-fire orders last across rounds until their target dies. */
+  private clearDeadFocus(): void {
+    const focused = this.units.filter(u => u.attackTargetId);
+    if (focused.length === 0) return;
+    const aliveIds = new Set(this.units.filter(u => u.alive).map(u => u.id));
+    for (const unit of focused) {
+      if (!aliveIds.has(unit.attackTargetId!)) unit.attackTargetId = null;
+    }
+  }
+
+  /** No movement, no combat, no projectiles in flight. */
+  private isIdle(): boolean {
+    return this.projectiles.length === 0 && this.units.every(u => {
+      if (!u.alive) return true;
+      // Use actual velocity — moveTarget can be stuck on obstacles
+      const speed = u.vel.x * u.vel.x + u.vel.y * u.vel.y;
+      if (speed > 1 || u.waypoints.length > 0 || u.holdTime || u.awaitingGo) return false;
+      if (unitDef(u.type).attack === 'heal') return !findHealTarget(u, this.units, this.obstacles, this.grid);
+      const target = this.pickTarget(u);
+      // Still swinging round to its watch direction
+      const watch = this.watchAngle(u, target);
+      if (watch !== null && Math.cos(u.gunAngle - watch) < 0.999) return false;
+      return !target || !isInRange(u, target, this.elevationZones)
+        || (unitDef(u.type).attack !== 'melee-aoe' && !canFireFrom(u.pos, this.terrainZones));
+    });
+  }
+}
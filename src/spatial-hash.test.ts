@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialHash } from './spatial-hash';
+import { BattleSimulation } from './simulation';
+import { createUnit, createMissionArmy, findTarget, separateUnits } from './units';
+import { HORDE_WAVES } from './horde';
+import { HORDE_STARTING_ARMY, MAP_WIDTH, MAP_HEIGHT, SIM_STEP_S } from './constants';
+import { createRng } from './rng';
+import { Obstacle, Unit } from './types';
+
+function scatter(count: number, seed: string): Unit[] {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, (_, i) => createUnit(
+    `u${i}`,
+    'soldier',
+    i % 2 === 0 ? 'blue' : 'red',
+    { x: 20 + rng() * (MAP_WIDTH - 40), y: 20 + rng() * (MAP_HEIGHT - 40) },
+  ));
+}
+
+describe('SpatialHash', () => {
+  it('query returns every unit overlapping the circle', () => {
+    const units = scatter(120, 'query');
+    const grid = new SpatialHash();
+    grid.rebuild(units);
+
+    const center = { x: 600, y: 400 };
+    const found = new Set(grid.query(center, 90));
+    for (const u of units) {
+      const d = Math.hypot(u.pos.x - center.x, u.pos.y - center.y);
+      if (d <= 90 + u.radius) expect(found.has(u)).toBe(true);
+    }
+    expect(found.size).toBeLessThan(units.length);
+  });
+
+  it('skips dead units', () => {
+    const a = createUnit('a', 'soldier', 'blue', { x: 100, y: 100 });
+    const b = createUnit('b', 'soldier', 'red', { x: 110, y: 100 });
+    b.alive = false;
+    const grid = new SpatialHash();
+    grid.rebuild([a, b]);
+
+    expect(grid.query({ x: 100, y: 100 }, 30)).toEqual([a]);
+  });
+
+  it('findTarget picks the same target with and without the grid', () => {
+    const units = scatter(80, 'targets');
+    const obstacles: Obstacle[] = [
+      { x: 300, y: 200, w: 40, h: 300 },
+      { x: 800, y: 100, w: 200, h: 40 },
+      { x: 550, y: 500, w: 120, h: 120 },
+    ];
+    const grid = new SpatialHash();
+    grid.rebuild(units);
+
+    for (const u of units) {
+      const brute = findTarget(u, units, null, obstacles);
+      const fast = findTarget(u, units, null, obstacles, grid);
+      expect(fast && Math.hypot(fast.pos.x - u.pos.x, fast.pos.y - u.pos.y))
+        .toBeCloseTo(brute ? Math.hypot(brute.pos.x - u.pos.x, brute.pos.y - u.pos.y) : 0, 6);
+    }
+  });
+
+  it('separateUnits resolves overlaps through the grid', () => {
+    const units = Array.from({ length: 20 }, (_, i) =>
+      createUnit(`z${i}`, 'zombie', 'red', { x: 400 + (i % 5) * 3, y: 300 + Math.floor(i / 5) * 3 }));
+    for (let i = 0; i < 20; i++) separateUnits(units, [], new SpatialHash());
+
+    for (let i = 0; i < units.length; i++) {
+      for (let j = i + 1; j < units.length; j++) {
+        const d = Math.hypot(units[i].pos.x - units[j].pos.x, units[i].pos.y - units[j].pos.y);
+        expect(d).toBeGreaterThan(units[i].radius + units[j].radius - 2);
+      }
+    }
+  });
+});
+
+describe('SpatialHash benchmark', () => {
+  function wave15Battle(): BattleSimulation {
+    const units = [
+      ...createMissionArmy('blue', HORDE_STARTING_ARMY),
+      ...createMissionArmy('red', HORDE_WAVES[14].enemies),
+    ];
+    return new BattleSimulation({ units, obstacles: [], elevationZones: [], rng: createRng('wave15') });
+  }
+
+  it('keeps neighbour queries local once a wave-15 horde engages', () => {
+    const sim = wave15Battle();
+    sim.startRound();
+    for (let i = 0; i < 240 && !sim.isOver; i++) sim.step(SIM_STEP_S);
+
+    const alive = sim.units.filter(u => u.alive);
+    const grid = new SpatialHash();
+    grid.rebuild(alive);
+    const candidates = alive.reduce((sum, u) => sum + grid.query(u.pos, u.radius * 5).length, 0);
+
+    expect(alive.length).toBeGreaterThan(40);
+    expect(candidates / alive.length).toBeLessThan(alive.length / 3);
+  });
+});
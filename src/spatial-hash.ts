@@ -0,0 +1,168 @@
+import { Unit, Vec2, Team } from './types';
+import { MAP_WIDTH, MAP_HEIGHT } from './constants';
+
+const DEFAULT_CELL_SIZE = 64;
+// Units drift a few px between rebuilds, so queries reach a little further
+const QUERY_SLACK = 8;
+
+/** One team's buckets plus the cell bounds they occupy. */
+interface TeamCells {
+  cells: Unit[][];
+  count: number;
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+/** Uniform grid over the map for neighbour queries. Rebuild whenever units move. */
+export class SpatialHash {
+  readonly cellSize: number;
+  private cols = 1;
+  private rows = 1;
+  private cells: Unit[][] = [];
+  private teams: Record<Team, TeamCells> = { blue: emptyTeam(0), red: emptyTeam(0) };
+  private maxRadius = 0;
+
+  constructor(cellSize = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  /** Re-bucket all alive units. Positions outside the map land in edge cells. */
+  rebuild(units: Unit[]): void {
+    this.cols = Math.max(1, Math.ceil(MAP_WIDTH / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(MAP_HEIGHT / this.cellSize));
+    const cellCount = this.cols * this.rows;
+    if (this.cells.length !== cellCount) {
+      this.cells = Array.from({ length: cellCount }, () => []);
+    } else {
+      for (const cell of this.cells) cell.length = 0;
+    }
+    for (const team of ['blue', 'red'] as const) {
+      const t = this.teams[team];
+      if (t.cells.length !== cellCount) {
+        this.teams[team] = emptyTeam(cellCount);
+      } else {
+        for (const cell of t.cells) cell.length = 0;
+        Object.assign(t, emptyBounds());
+      }
+    }
+
+    this.maxRadius = 0;
+    for (const u of units) {
+      if (!u.alive) continue;
+      const t = this.teams[u.team];
+      const col = this.col(u.pos.x);
+      const row = this.row(u.pos.y);
+      this.cells[row * this.cols + col].push(u);
+      t.cells[row * this.cols + col].push(u);
+      t.count++;
+      if (col < t.minCol) t.minCol = col;
+      if (col > t.maxCol) t.maxCol = col;
+      if (row < t.minRow) t.minRow = row;
+      if (row > t.maxRow) t.maxRow = row;
+      if (u.radius > this.maxRadius) this.maxRadius = u.radius;
+    }
+  }
+
+  /** Units whose bodies may overlap a circle of `radius` around pos (broad phase only). */
+  query(pos: Vec2, radius: number): Unit[] {
+    const reach = radius + this.maxRadius + QUERY_SLACK;
+    const minC = this.col(pos.x - reach);
+    const maxC = this.col(pos.x + reach);
+    const minR = this.row(pos.y - reach);
+    const maxR = this.row(pos.y + reach);
+    const result: Unit[] = [];
+    for (let r = minR; r <= maxR; r++) {
+      for (let c = minC; c <= maxC; c++) {
+        const cell = this.cells[r * this.cols + c];
+        for (let i = 0; i < cell.length; i++) result.push(cell[i]);
+      }
+    }
+    return result;
+  }
+
+  /** Visit every pair sharing or touching a cell, once. Pairs closer than cellSize are never missed. */
+  forEachPair(visit: (a: Unit, b: Unit) => void): void {
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        const cell = this.cells[r * this.cols + c];
+        if (cell.length === 0) continue;
+        for (let i = 0; i < cell.length; i++) {
+          for (let j = i + 1; j < cell.length; j++) visit(cell[i], cell[j]);
+        }
+        // Forward neighbours only (E, SW, S, SE) so each cell pair is seen once
+        if (c + 1 < this.cols) visitAcross(cell, this.cells[r * this.cols + c + 1], visit);
+        if (r + 1 < this.rows) {
+          const below = (r + 1) * this.cols + c;
+          if (c > 0) visitAcross(cell, this.cells[below - 1], visit);
+          visitAcross(cell, this.cells[below], visit);
+          if (c + 1 < this.cols) visitAcross(cell, this.cells[below + 1], visit);
+        }
+      }
+    }
+  }
+
+  /**
+   * Visit one team's units ring by ring outward from pos, starting at the
+   * first ring that reaches them. After ring r is visited every remaining
+   * unit is at least r * cellSize away; return false from `keepGoing(r)`
+   * to stop there.
+   */
+  searchRings(pos: Vec2, team: Team, visit: (unit: Unit) => void, keepGoing: (ring: number) => boolean): void {
+    const t = this.teams[team];
+    if (t.count === 0) return;
+    const cc = this.col(pos.x);
+    const cr = this.row(pos.y);
+    const firstRing = Math.max(0, t.minCol - cc, cc - t.maxCol, t.minRow - cr, cr - t.maxRow);
+    const lastRing = Math.max(cc - t.minCol, t.maxCol - cc, cr - t.minRow, t.maxRow - cr);
+
+    let seen = 0;
+    for (let ring = firstRing; ring <= lastRing; ring++) {
+      const top = cr - ring;
+      const bottom = cr + ring;
+      const left = cc - ring;
+      const right = cc + ring;
+      for (let r = Math.max(top, t.minRow); r <= Math.min(bottom, t.maxRow); r++) {
+        const rowStart = r * this.cols;
+        if (r === top || r === bottom) {
+          for (let c = Math.max(left, t.minCol); c <= Math.min(right, t.maxCol); c++) {
+            seen += visitCell(t.cells[rowStart + c], visit);
+          }
+        } else {
+          // Interior rows only contribute their two edge cells
+          if (left >= t.minCol) seen += visitCell(t.cells[rowStart + left], visit);
+          if (right <= t.maxCol && right !== left) seen += visitCell(t.cells[rowStart + right], visit);
+        }
+      }
+      if (seen === t.count || !keepGoing(ring)) return;
+    }
+  }
+
+  private col(x: number): number {
+    return Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  private row(y: number): number {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+}
+
+function emptyBounds() {
+  return { count: 0, minCol: Infinity, maxCol: -Infinity, minRow: Infinity, maxRow: -Infinity };
+}
+
+function emptyTeam(cellCount: number): TeamCells {
+  return { cells: Array.from({ length: cellCount }, () => []), ...emptyBounds() };
+}
+
+function visitCell(cell: Unit[], visit: (unit: Unit) => void): number {
+  for (let i = 0; i < cell.length; i++) visit(cell[i]);
+  return cell.length;
+}
+
+function visitAcross(cell: Unit[], other: Unit[], visit: (a: Unit, b: Unit) => void): void {
+  for (let i = 0; i < cell.length; i++) {
+    for (let j = 0; j < other.length; j++) visit(cell[i], other[j]);
+  }
+}
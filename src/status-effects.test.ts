@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStatus, hasStatus, tickStatusEffects, statusSpeedMultiplier, statusDamageMultiplier, canFire, canTurn,
+} from './status-effects';
+import { createUnit, moveUnit, applyDamage, tryFireProjectile, updateGunAngle } from './units';
+import { BattleSimulation, SimEvent } from './simulation';
+import { SIM_STEP_S } from './constants';
+
+function soldier(id = 'blue_soldier_0', team: 'blue' | 'red' = 'blue') {
+  return createUnit(id, 'soldier', team, { x: 300, y: 300 });
+}
+
+describe('applyStatus', () => {
+  it('keeps the strongest slow instead of stacking', () => {
+    const u = soldier();
+    expect(applyStatus(u, { kind: 'slow', remaining: 1, magnitude: 0.5 })).toBe(true);
+    expect(applyStatus(u, { kind: 'slow', remaining: 3, magnitude: 0.2 })).toBe(false);
+    expect(u.statusEffects).toHaveLength(1);
+    expect(u.statusEffects![0]).toMatchObject({ remaining: 3, magnitude: 0.5 });
+  });
+
+  it('stacks burn up to the cap, dropping the one closest to expiring', () => {
+    const u = soldier();
+    applyStatus(u, { kind: 'burn', remaining: 1, magnitude: 2 });
+    applyStatus(u, { kind: 'burn', remaining: 2, magnitude: 2 });
+    applyStatus(u, { kind: 'burn', remaining: 3, magnitude: 2 });
+    applyStatus(u, { kind: 'burn', remaining: 4, magnitude: 2 });
+    expect(u.statusEffects!.map(e => e.remaining)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('tickStatusEffects', () => {
+  it('sums burn damage across stacks and reports expiry once per kind', () => {
+    const u = soldier();
+    applyStatus(u, { kind: 'burn', remaining: 0.5, magnitude: 4, sourceId: 'red_soldier_0', sourceTeam: 'red' });
+    applyStatus(u, { kind: 'burn', remaining: 0.5, magnitude: 4 });
+
+    const tick = tickStatusEffects(u, 1);
+    expect(tick.damage).toBeCloseTo(4); // two stacks × 4/s × 0.5s left
+    expect(tick.damageTeam).toBe('red');
+    expect(tick.damageSourceId).toBe('red_soldier_0');
+    expect(tick.expired).toEqual(['burn']);
+    expect(hasStatus(u, 'burn')).toBe(false);
+  });
+});
+
+describe('status modifiers', () => {
+  it('slows and stuns movement', () => {
+    const slowed = soldier();
+    const normal = soldier('blue_soldier_1');
+    slowed.waypoints = [{ x: 600, y: 300 }];
+    normal.waypoints = [{ x: 600, y: 300 }];
+    applyStatus(slowed, { kind: 'slow', remaining: 5, magnitude: 0.5 });
+    expect(statusSpeedMultiplier(slowed)).toBeCloseTo(0.5);
+
+    moveUnit(slowed, 0.1, []);
+    moveUnit(normal, 0.1, []);
+    expect(slowed.pos.x - 300).toBeCloseTo((normal.pos.x - 300) / 2);
+
+    const stunned = soldier('blue_soldier_2');
+    stunned.waypoints = [{ x: 600, y: 300 }];
+    applyStatus(stunned, { kind: 'stun', remaining: 5, magnitude: 1 });
+    moveUnit(stunned, 0.1, []);
+    expect(stunned.pos.x).toBe(300);
+    expect(stunned.waypoints).toHaveLength(1);
+  });
+
+  it('shielded reduces damage taken', () => {
+    const u = soldier();
+    applyStatus(u, { kind: 'shielded', remaining: 5, magnitude: 0.5 });
+    expect(statusDamageMultiplier(u)).toBeCloseTo(0.5);
+    applyDamage(u, 20);
+    expect(u.hp).toBe(u.maxHp - 10);
+  });
+
+  it('stun blocks firing and turning', () => {
+    const u = soldier();
+    const enemy = createUnit('red_soldier_0', 'soldier', 'red', { x: 300, y: 250 });
+    applyStatus(u, { kind: 'stun', remaining: 5, magnitude: 1 });
+    expect(canFire(u)).toBe(false);
+    expect(canTurn(u)).toBe(false);
+
+    u.gunAngle = -Math.PI / 2; // already aimed at the enemy
+    updateGunAngle(u, Math.PI / 2, 0.5);
+    expect(u.gunAngle).toBe(-Math.PI / 2);
+    u.fireTimer = 0;
+    expect(tryFireProjectile(u, enemy, SIM_STEP_S)).toEqual([]);
+
+    u.statusEffects = [];
+    expect(tryFireProjectile(u, enemy, SIM_STEP_S)).not.toEqual([]);
+  });
+});
+
+describe('status effects in the simulation', () => {
+  it('burns units and reports apply, damage and expiry events', () => {
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 100, y: 700 });
+    const red = createUnit('red_soldier_0', 'soldier', 'red', { x: 900, y: 100 });
+    const sim = new BattleSimulation({ units: [blue, red], obstacles: [], elevationZones: [] });
+    sim.startRound();
+    sim.applyStatus(blue, { kind: 'burn', remaining: 0.5, magnitude: 10, sourceId: red.id, sourceTeam: 'red' });
+
+    const events: SimEvent[] = [];
+    for (let i = 0; i < 60; i++) events.push(...sim.step(SIM_STEP_S));
+
+    expect(events[0]).toEqual({ type: 'status', change: 'apply', unitId: blue.id, kind: 'burn' });
+    const burns = events.filter(e => e.type === 'hit' && e.source === 'status');
+    expect(burns.length).toBeGreaterThan(0);
+    expect(burns.every(e => e.type === 'hit' && e.team === 'red' && e.sourceId === red.id)).toBe(true);
+    expect(blue.hp).toBeCloseTo(blue.maxHp - 5);
+    expect(events).toContainEqual({ type: 'status', change: 'expire', unitId: blue.id, kind: 'burn' });
+  });
+
+  it('sets off a bomber that burns to death', () => {
+    const bomber = createUnit('red_bomber_0', 'bomber', 'red', { x: 500, y: 400 });
+    const blue = createUnit('blue_soldier_0', 'soldier', 'blue', { x: 530, y: 400 });
+    const zombie = createUnit('red_zombie_0', 'zombie', 'red', { x: 900, y: 100 });
+    const sim = new BattleSimulation({ units: [bomber, blue, zombie], obstacles: [], elevationZones: [] });
+    sim.startRound();
+    bomber.hp = 0.01;
+    sim.applyStatus(bomber, { kind: 'burn', remaining: 1, magnitude: 10, sourceId: blue.id, sourceTeam: 'blue' });
+
+    const events = sim.step(SIM_STEP_S);
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'kill', source: 'status', targetId: bomber.id }));
+    expect(events).toContainEqual(expect.objectContaining({ source: 'explosion', targetId: blue.id, sourceId: bomber.id }));
+    expect(blue.hp).toBeLessThan(blue.maxHp);
+  });
+});
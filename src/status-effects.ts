@@ -0,0 +1,114 @@
+import { Unit, StatusEffect, StatusKind, Team } from './types';
+
+interface StatusDef {
+  /**
+   * 'strongest' keeps one instance with the larger magnitude and longer time;
+   * 'stack' runs each application separately up to maxStacks.
+   */
+  stacking: 'strongest' | 'stack';
+  maxStacks?: number;
+  /** Movement speed multiplier. */
+  speed?: (magnitude: number) => number;
+  /** Incoming damage multiplier. */
+  damageTaken?: (magnitude: number) => number;
+  /** Damage per second dealt to the carrier. */
+  damagePerSecond?: (magnitude: number) => number;
+  blocksFiring?: boolean;
+  blocksTurning?: boolean;
+}
+
+export const STATUS_DEFS: Record<StatusKind, StatusDef> = {
+  // magnitude = fraction of speed lost
+  slow: { stacking: 'strongest', speed: m => Math.max(0, 1 - m) },
+  // magnitude = damage per second, per stack
+  burn: { stacking: 'stack', maxStacks: 3, damagePerSecond: m => m },
+  stun: { stacking: 'strongest', speed: () => 0, blocksFiring: true, blocksTurning: true },
+  // magnitude = fraction of damage absorbed
+  shielded: { stacking: 'strongest', damageTaken: m => Math.max(0, 1 - m) },
+};
+
+export interface StatusTick {
+  /** Damage over time dealt this tick, already summed across stacks. */
+  damage: number;
+  /** Team behind the damage, when known. */
+  damageTeam?: Team;
+  damageSourceId?: string;
+  /** Kinds that are no longer on the unit at all. */
+  expired: StatusKind[];
+}
+
+/** Add an effect following its stacking rule. Returns true if the unit didn't already have this kind. */
+export function applyStatus(unit: Unit, effect: StatusEffect): boolean {
+  const effects = unit.statusEffects ??= [];
+  const def = STATUS_DEFS[effect.kind];
+  const same = effects.filter(e => e.kind === effect.kind);
+
+  if (def.stacking === 'strongest' && same.length > 0) {
+    same[0].magnitude = Math.max(same[0].magnitude, effect.magnitude);
+    same[0].remaining = Math.max(same[0].remaining, effect.remaining);
+    return false;
+  }
+
+  if (def.stacking === 'stack' && def.maxStacks !== undefined && same.length >= def.maxStacks) {
+    // Full — the application closest to expiring makes room
+    const oldest = same.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+    effects.splice(effects.indexOf(oldest), 1);
+  }
+
+  effects.push({ ...effect });
+  return same.length === 0;
+}
+
+export function hasStatus(unit: Unit, kind: StatusKind): boolean {
+  return unit.statusEffects?.some(e => e.kind === kind) ?? false;
+}
+
+/** Count down every effect on a unit and collect damage over time. */
+export function tickStatusEffects(unit: Unit, dt: number): StatusTick {
+  const tick: StatusTick = { damage: 0, expired: [] };
+  const effects = unit.statusEffects;
+  if (!effects || effects.length === 0) return tick;
+
+  for (const e of effects) {
+    const dps = STATUS_DEFS[e.kind].damagePerSecond;
+    if (dps) {
+      tick.damage += dps(e.magnitude) * Math.min(dt, e.remaining);
+      tick.damageTeam ??= e.sourceTeam;
+      tick.damageSourceId ??= e.sourceId;
+    }
+    e.remaining -= dt;
+  }
+
+  const before = new Set(effects.map(e => e.kind));
+  unit.statusEffects = effects.filter(e => e.remaining > 0);
+  for (const kind of before) {
+    if (!hasStatus(unit, kind)) tick.expired.push(kind);
+  }
+  return tick;
+}
+
+export function statusSpeedMultiplier(unit: Unit): number {
+  let mul = 1;
+  for (const e of unit.statusEffects ?? []) {
+    const speed = STATUS_DEFS[e.kind].speed;
+    if (speed) mul *= speed(e.magnitude);
+  }
+  return mul;
+}
+
+export function statusDamageMultiplier(unit: Unit): number {
+  let mul = 1;
+  for (const e of unit.statusEffects ?? []) {
+    const taken = STATUS_DEFS[e.kind].damageTaken;
+    if (taken) mul *= taken(e.magnitude);
+  }
+  return mul;
+}
+
+export function canFire(unit: Unit): boolean {
+  return !unit.statusEffects?.some(e => STATUS_DEFS[e.kind].blocksFiring);
+}
+
+export function canTurn(unit: Unit): boolean {
+  return !unit.statusEffects?.some(e => STATUS_DEFS[e.kind].blocksTurning);
+}
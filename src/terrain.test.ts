@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { terrainAt, terrainSpeedMultiplier, canFireFrom, isConcealed } from './terrain';
+import { MUD_SPEED_MULTIPLIER, BRUSH_REVEAL_RADIUS } from './constants';
+import { TerrainZone } from './types';
+
+const mud: TerrainZone = { x: 0, y: 0, w: 100, h: 100, kind: 'mud' };
+const water: TerrainZone = { x: 200, y: 0, w: 100, h: 100, kind: 'water' };
+const brush: TerrainZone = { x: 400, y: 0, w: 100, h: 100, kind: 'brush' };
+const zones = [mud, water, brush];
+
+describe('terrainAt', () => {
+  it('finds the zone under a position', () => {
+    expect(terrainAt({ x: 50, y: 50 }, zones)).toBe('mud');
+    expect(terrainAt({ x: 300, y: 100 }, zones)).toBe('water');
+    expect(terrainAt({ x: 150, y: 50 }, zones)).toBeNull();
+  });
+});
+
+describe('terrain rules', () => {
+  it('slows units in mud only', () => {
+    expect(terrainSpeedMultiplier({ x: 50, y: 50 }, zones)).toBe(MUD_SPEED_MULTIPLIER);
+    expect(terrainSpeedMultiplier({ x: 450, y: 50 }, zones)).toBe(1);
+  });
+
+  it('stops firing from water', () => {
+    expect(canFireFrom({ x: 250, y: 50 }, zones)).toBe(false);
+    expect(canFireFrom({ x: 50, y: 50 }, zones)).toBe(true);
+  });
+
+  it('hides brush from distant viewers', () => {
+    const inside = { x: 450, y: 50 };
+    expect(isConcealed(inside, { x: 450, y: 50 + BRUSH_REVEAL_RADIUS + 10 }, zones)).toBe(true);
+    expect(isConcealed(inside, { x: 450, y: 50 + BRUSH_REVEAL_RADIUS - 10 }, zones)).toBe(false);
+    expect(isConcealed({ x: 50, y: 50 }, { x: 900, y: 900 }, zones)).toBe(false);
+  });
+});
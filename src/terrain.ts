@@ -0,0 +1,48 @@
+import { TerrainZone, TerrainKind, Vec2 } from './types';
+import { MUD_SPEED_MULTIPLIER, WATER_SPEED_MULTIPLIER, BRUSH_REVEAL_RADIUS } from './constants';
+
+interface TerrainDef {
+  /** Badge shown when hovering the zone or ending a path in it. */
+  label: string;
+  /** Movement speed multiplier while inside. */
+  speed?: number;
+  /** Units wading here can't fire. */
+  blocksFiring?: boolean;
+  /** Units inside are hidden from enemies further away than this. */
+  revealRadius?: number;
+}
+
+export const TERRAIN_DEFS: Record<TerrainKind, TerrainDef> = {
+  mud: { label: `-${Math.round((1 - MUD_SPEED_MULTIPLIER) * 100)}% Speed`, speed: MUD_SPEED_MULTIPLIER },
+  water: { label: 'No Firing', speed: WATER_SPEED_MULTIPLIER, blocksFiring: true },
+  brush: { label: 'Hidden', revealRadius: BRUSH_REVEAL_RADIUS },
+};
+
+/** Kind of the first zone containing pos, or null on open ground. */
+export function terrainAt(pos: Vec2, zones: TerrainZone[]): TerrainKind | null {
+  for (const z of zones) {
+    if (pos.x >= z.x && pos.x <= z.x + z.w && pos.y >= z.y && pos.y <= z.y + z.h) return z.kind;
+  }
+  return null;
+}
+
+export function terrainSpeedMultiplier(pos: Vec2, zones: TerrainZone[]): number {
+  const kind = terrainAt(pos, zones);
+  return kind ? TERRAIN_DEFS[kind].speed ?? 1 : 1;
+}
+
+/** False while wading through terrain that keeps guns quiet. */
+export function canFireFrom(pos: Vec2, zones: TerrainZone[]): boolean {
+  const kind = terrainAt(pos, zones);
+  return !kind || !TERRAIN_DEFS[kind].blocksFiring;
+}
+
+/** True when something at `pos` is hidden from an enemy standing at `viewer`. */
+export function isConcealed(pos: Vec2, viewer: Vec2, zones: TerrainZone[]): boolean {
+  const kind = terrainAt(pos, zones);
+  const reveal = kind ? TERRAIN_DEFS[kind].revealRadius : undefined;
+  if (reveal === undefined) return false;
+  const dx = pos.x - viewer.x;
+  const dy = pos.y - viewer.y;
+  return dx * dx + dy * dy > reveal * reveal;
+}
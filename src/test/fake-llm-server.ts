@@ -0,0 +1,48 @@
+/// <reference types="node" />
+// Stand-in for a local OpenAI-compatible LLM server, for tests
+import { createServer, IncomingMessage } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ChatMessage } from '../commander-backend';
+
+export interface FakeLlmServer {
+  /** Base URL to hand to OpenAiBackend, ending in `/v1`. */
+  url: string;
+  /** Bodies of every chat completion request received so far. */
+  requests: { model: string; messages: ChatMessage[]; max_tokens: number }[];
+  close(): Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/** Serve `/v1/models` and `/v1/chat/completions` on a free localhost port, answering with `reply`. */
+export async function startFakeLlmServer(reply: (messages: ChatMessage[]) => string): Promise<FakeLlmServer> {
+  const requests: FakeLlmServer['requests'] = [];
+  const server = createServer(async (req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    if (req.method === 'GET' && req.url === '/v1/models') {
+      res.end(JSON.stringify({ object: 'list', data: [{ id: 'fake', object: 'model' }] }));
+    } else if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+      const body = JSON.parse(await readBody(req));
+      requests.push(body);
+      res.end(JSON.stringify({ choices: [{ index: 0, message: { role: 'assistant', content: reply(body.messages) } }] }));
+    } else {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'not found' }));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -9,11 +9,22 @@ export interface Theme {
   elevationInner: number;
   elevationLabel: string;
 
+  // Terrain zones
+  terrainMud: number;
+  terrainWater: number;
+  terrainRipple: number;
+  terrainBrush: number;
+  terrainLabel: string;
+
   // Obstacles
   obstacleBorder: number;
   obstacleFill: number;
   obstacleHighlight: number;
 
+  // Cover blocks
+  coverFill: number;
+  coverBorder: number;
+
   // Teams
   blue: number;
   blueZombie: number;
@@ -47,6 +58,13 @@ export interface Theme {
   // Special unit types
   shielder: number;
   bomber: number;
+  medic: number;
+
+  // Status effects — icons, tints and the shield ring
+  statusSlow: number;
+  statusBurn: number;
+  statusStun: number;
+  statusShield: number;
 
   // HP bar
   hpBg: number;
@@ -82,10 +100,19 @@ export const NIGHT_THEME: Theme = {
   elevationInner: 0x3a3a68,
   elevationLabel: '#66ff88',
 
+  terrainMud: 0x4a3a28,
+  terrainWater: 0x1f3f66,
+  terrainRipple: 0x6fa8dc,
+  terrainBrush: 0x2e5a36,
+  terrainLabel: '#ccddff',
+
   obstacleBorder: 0x8888aa,
   obstacleFill: 0x4a4a6e,
   obstacleHighlight: 0x9999bb,
 
+  coverFill: 0x5a5a7a,
+  coverBorder: 0x7777aa,
+
   blue: 0x4a9eff,
   blueZombie: 0x3a7ecc,
   blueDark: 0x2a5a8a,
@@ -113,6 +140,12 @@ export const NIGHT_THEME: Theme = {
 
   shielder: 0x7799aa,
   bomber: 0xff8844,
+  medic: 0x66ee99,
+
+  statusSlow: 0x66bbff,
+  statusBurn: 0xff7733,
+  statusStun: 0xffee55,
+  statusShield: 0x99ddff,
 
   hpBg: 0x333333,
   hpHigh: 0x44ff44,
@@ -144,10 +177,19 @@ export const DAY_THEME: Theme = {
   elevationInner: 0xa09868,
   elevationLabel: '#558844',
 
+  terrainMud: 0x8a6a44,
+  terrainWater: 0x7fa8c8,
+  terrainRipple: 0x4f7fa8,
+  terrainBrush: 0x6f9a58,
+  terrainLabel: '#445566',
+
   obstacleBorder: 0x665544,
   obstacleFill: 0xddd4c0,
   obstacleHighlight: 0xbbaa88,
 
+  coverFill: 0xe8e0cc,
+  coverBorder: 0x998866,
+
   blue: 0x2266aa,
   blueZombie: 0x1a5588,
   blueDark: 0x143d66,
@@ -175,6 +217,12 @@ export const DAY_THEME: Theme = {
 
   shielder: 0x556677,
   bomber: 0xcc6633,
+  medic: 0x33aa66,
+
+  statusSlow: 0x3377bb,
+  statusBurn: 0xdd5511,
+  statusStun: 0xbb9900,
+  statusShield: 0x4488aa,
 
   hpBg: 0x998877,
   hpHigh: 0x448833,
@@ -1,4 +1,7 @@
-export type UnitType = 'soldier' | 'blade' | 'sniper' | 'zombie' | 'shielder' | 'bomber';
+import type { UNIT_DEFS } from './unit-defs';
+
+/** Every key in the unit registry. */
+export type UnitType = keyof typeof UNIT_DEFS;
 export type Team = 'blue' | 'red';
 export type GamePhase = 'prompt' | 'battle' | 'result';
 export type TurnPhase = 'blue-planning' | 'cover' | 'red-planning' | 'playing';
@@ -20,6 +23,84 @@ export interface UnitStats {
   turnSpeed: number;
 }
 
+/** How a unit deals damage. */
+export type AttackKind = 'projectile' | 'lob' | 'melee-aoe' | 'heal' | 'none';
+/** Planned units follow drawn or AI paths; chasers run at the nearest enemy every tick. */
+export type MovementKind = 'planned' | 'chase';
+export type DeathEffect =
+  | { kind: 'none' }
+  | { kind: 'explode'; radius: number; damage: number };
+
+/** Healers top up the most injured ally within `radius`, pulsing every fireCooldown. */
+export interface HealStats {
+  radius: number;
+  perSecond: number;
+}
+
+/** Position-scoring weights the AI planner uses for a unit type. */
+export interface ScoringWeights {
+  distIdeal: [number, number]; // [min, max] preferred distance to nearest enemy
+  distPenaltyScale: number;
+  los: number;
+  elevation: number;
+  cover: number;
+  flank: number;
+  /** Bonus for staying behind the ally nearest the enemy while still in reach of it. */
+  support?: number;
+}
+
+/** How the renderer draws a unit type. */
+export interface UnitLook {
+  body: 'ellipse' | 'diamond' | 'star' | 'shield' | 'pulse' | 'blob' | 'cross' | 'hex';
+  barrel: 'rifle' | 'long' | 'stubby' | 'none';
+  /** Body spins constantly instead of turning with the gun. */
+  spin?: boolean;
+}
+
+/** Everything that makes one unit type behave the way it does. */
+export interface UnitDef {
+  stats: UnitStats;
+  attack: AttackKind;
+  movement: MovementKind;
+  deathEffect: DeathEffect;
+  heal?: HealStats;
+  /** Lobbed shells burst over this radius on landing. */
+  blastRadius?: number;
+  /** Fires over obstacles, so needs no line of sight to its target. */
+  indirect?: boolean;
+  /** Blocks projectiles hitting the front 120° cone. */
+  frontalShield?: boolean;
+  /** Projectiles pass through enemies. */
+  piercing?: boolean;
+  /** Fraction of incoming damage ignored. */
+  damageReduction?: number;
+  /** Random sideways wobble while walking. */
+  shamble?: boolean;
+  /** Offered as a horde recruit. */
+  recruitable?: boolean;
+  scoring: ScoringWeights;
+  look: UnitLook;
+}
+
+export type StatusKind = 'slow' | 'burn' | 'stun' | 'shielded';
+
+/** A timed effect on a unit. What `magnitude` means depends on the kind. */
+export interface StatusEffect {
+  kind: StatusKind;
+  remaining: number; // seconds left
+  magnitude: number;
+  sourceId?: string;
+  sourceTeam?: Team;
+}
+
+/** Path node — optionally a timed pause or a "go" marker that releases teammates together. */
+export interface Waypoint extends Vec2 {
+  /** Seconds to hold here before moving on. */
+  wait?: number;
+  /** Hold here until every teammate with a go marker ahead has reached theirs. */
+  sync?: boolean;
+}
+
 export interface Unit {
   id: string;
   type: UnitType;
@@ -31,9 +112,11 @@ export interface Unit {
   damage: number;
   range: number;
   radius: number;
-  moveTarget: Vec2 | null;
-  waypoints: Vec2[];
+  moveTarget: Waypoint | null;
+  waypoints: Waypoint[];
   attackTargetId: string | null;
+  /** Watch direction held after the path ends while no target is visible. */
+  facing?: number;
   alive: boolean;
   fireCooldown: number;
   fireTimer: number;
@@ -43,9 +126,21 @@ export interface Unit {
   gunAngle: number;
   turnSpeed: number;
   stuckTime?: number;
+  /** Seconds spent holding at a timed waypoint so far. */
+  holdTime?: number;
+  /** Parked on a go marker until the rest of the team catches up. */
+  awaitingGo?: boolean;
   piercing?: boolean;
   damageReduction?: number;
   knockbackVel?: Vec2;
+  statusEffects?: StatusEffect[];
+}
+
+/** In-flight state of a lobbed shell — it lands on `Projectile.target` when elapsed reaches flightTime. */
+export interface ShellArc {
+  flightTime: number;
+  elapsed: number;
+  blastRadius: number;
 }
 
 export interface Projectile {
@@ -55,12 +150,14 @@ export interface Projectile {
   damage: number;
   radius: number;
   team: Team;
+  ownerId?: string;
   maxRange: number;
   distanceTraveled: number;
   trail?: Vec2[];
   piercing?: boolean;
   hitIds?: Set<string>;
   knockback?: number;
+  shell?: ShellArc;
 }
 
 export interface Obstacle {
@@ -68,6 +165,9 @@ export interface Obstacle {
   y: number;
   w: number;
   h: number;
+  /** Destructible blocks wear down and break at 0; blocks without hp never do. */
+  hp?: number;
+  maxHp?: number;
 }
 
 export interface ElevationZone {
@@ -77,6 +177,28 @@ export interface ElevationZone {
   h: number;
 }
 
+/** Low wall: blocks movement but not sight or shots, and halves damage to units tucked in behind it. */
+export type CoverBlock = Obstacle;
+
+export type TerrainKind = 'mud' | 'water' | 'brush';
+
+/** Everything generated for a battlefield before units spawn. */
+export interface BattleMap {
+  obstacles: Obstacle[];
+  elevationZones: ElevationZone[];
+  terrainZones: TerrainZone[];
+  coverBlocks: CoverBlock[];
+}
+
+/** Ground that changes how units inside it move, shoot or hide. */
+export interface TerrainZone {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  kind: TerrainKind;
+}
+
 export interface AiUnitOrder {
   id: string;
   move_to: [number, number];
@@ -87,6 +209,28 @@ export interface AiResponse {
   orders: AiUnitOrder[];
 }
 
+export type AiOrderIssueKind =
+  | 'unparseable' | 'repaired-json' | 'malformed-order'
+  | 'unknown-unit' | 'duplicate-order' | 'off-map' | 'in-block' | 'bad-target';
+
+/** One thing the order parser or validator had to fix or throw away. */
+export interface AiOrderIssue {
+  kind: AiOrderIssueKind;
+  /** Unit the order was for, when known. */
+  id?: string;
+  message: string;
+}
+
+/** How the AI commander's last round of planning went, for the debug panel. */
+export interface AiDiagnostics {
+  attempts: { raw: string; issues: AiOrderIssue[] }[];
+  elapsedMs: number;
+  /** The time budget ran out before the model answered. */
+  timedOut: boolean;
+  /** Units the model left without an order, filled in by the fallback. */
+  backfilled: string[];
+}
+
 export interface BattleResult {
   winner: Team;
   blueAlive: number;
@@ -116,6 +260,7 @@ export interface ReplayUnitSnapshot {
   maxHp: number;
   alive: boolean;
   radius: number;
+  statuses?: StatusKind[];
 }
 
 export interface ReplayProjectileSnapshot {
@@ -129,17 +274,22 @@ export interface ReplayProjectileSnapshot {
   maxRange: number;
   distanceTraveled: number;
   trail?: Vec2[];
+  target?: Vec2; // landing point, shells only
+  shell?: ShellArc;
 }
 
 export interface ReplayEvent {
   frame: number;
-  type: 'fire' | 'hit' | 'kill';
+  type: 'fire' | 'hit' | 'kill' | 'heal' | 'blast' | 'obstacle-damage' | 'status-apply' | 'status-expire';
   pos: Vec2;
   angle: number;
-  damage: number;
+  damage: number; // HP restored for heal events
   flanked: boolean;
   team: Team;
   targetId?: string;
+  status?: StatusKind;
+  radius?: number; // blast events
+  obstacleIndex?: number; // obstacle-damage events: index into ReplayData.obstacles
 }
 
 export interface ReplayFrame {
@@ -150,8 +300,11 @@ export interface ReplayFrame {
 export interface ReplayData {
   frames: ReplayFrame[];
   events: ReplayEvent[];
-  obstacles: Obstacle[];
+  obstacles: Obstacle[]; // as they stood at the start of the battle
   elevationZones: ElevationZone[];
+  terrainZones?: TerrainZone[];
+  coverBlocks?: CoverBlock[];
+  stepRate: number; // simulation steps per second, one frame per step
 }
 
 export interface HordeUpgrade {
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { UNIT_DEFS, unitDef } from './unit-defs';
+import { createUnit } from './units';
+import { ALL_RECRUIT_UPGRADES } from './horde';
+import { UnitType } from './types';
+
+const ALL_TYPES = Object.keys(UNIT_DEFS) as UnitType[];
+
+describe('UNIT_DEFS', () => {
+  it('gives every type usable stats', () => {
+    for (const type of ALL_TYPES) {
+      const { stats } = unitDef(type);
+      expect(stats.hp).toBeGreaterThan(0);
+      expect(stats.radius).toBeGreaterThan(0);
+      expect(stats.speed).toBeGreaterThan(0);
+    }
+  });
+
+  it('createUnit copies stats and flags from the definition', () => {
+    for (const type of ALL_TYPES) {
+      const def = unitDef(type);
+      const unit = createUnit('u', type, 'blue', { x: 0, y: 0 });
+      expect(unit.maxHp).toBe(def.stats.hp);
+      expect(unit.range).toBe(def.stats.range);
+      expect(unit.piercing).toBe(def.piercing);
+      expect(unit.damageReduction).toBe(def.damageReduction);
+    }
+  });
+
+  it('offers exactly the recruitable types as horde recruits', () => {
+    const recruitable = ALL_TYPES.filter(t => unitDef(t).recruitable).map(t => `recruit_${t}`);
+    expect(ALL_RECRUIT_UPGRADES.map(u => u.id)).toEqual(recruitable);
+  });
+});
@@ -0,0 +1,85 @@
+import { UnitDef, UnitType } from './types';
+
+/** One entry per unit type — the engine reads behaviour from here, never from the type name. */
+export const UNIT_DEFS = {
+  soldier: {
+    stats: { hp: 60, speed: 100, damage: 10, range: 120, radius: 10, fireCooldown: 1.0, projectileSpeed: 300, projectileRadius: 5, turnSpeed: 2.5 },
+    attack: 'projectile',
+    movement: 'planned',
+    deathEffect: { kind: 'none' },
+    recruitable: true,
+    scoring: { distIdeal: [50, 120], distPenaltyScale: 0.15, los: 20, elevation: 15, cover: 15, flank: 25 },
+    look: { body: 'ellipse', barrel: 'rifle' },
+  },
+  blade: {
+    stats: { hp: 80, speed: 120, damage: 12, range: 25, radius: 12, fireCooldown: 0.5, projectileSpeed: 600, projectileRadius: 3, turnSpeed: 3.0 },
+    attack: 'melee-aoe',
+    movement: 'planned',
+    deathEffect: { kind: 'none' },
+    damageReduction: 0.3,
+    recruitable: true,
+    scoring: { distIdeal: [0, 40], distPenaltyScale: 0.25, los: 15, elevation: 5, cover: 5, flank: 15 },
+    look: { body: 'star', barrel: 'none', spin: true },
+  },
+  sniper: {
+    stats: { hp: 15, speed: 70, damage: 30, range: 300, radius: 7, fireCooldown: 2.5, projectileSpeed: 1200, projectileRadius: 5, turnSpeed: 1.2 },
+    attack: 'projectile',
+    movement: 'planned',
+    deathEffect: { kind: 'none' },
+    piercing: true,
+    recruitable: true,
+    scoring: { distIdeal: [180, 300], distPenaltyScale: 0.15, los: 30, elevation: 25, cover: 20, flank: 5 },
+    look: { body: 'diamond', barrel: 'long' },
+  },
+  zombie: {
+    stats: { hp: 20, speed: 55, damage: 14, range: 20, radius: 8, fireCooldown: 0.8, projectileSpeed: 300, projectileRadius: 4, turnSpeed: 3.0 },
+    attack: 'projectile',
+    movement: 'chase',
+    deathEffect: { kind: 'none' },
+    shamble: true,
+    scoring: { distIdeal: [0, 30], distPenaltyScale: 0.1, los: 5, elevation: 0, cover: 0, flank: 5 },
+    look: { body: 'blob', barrel: 'none' },
+  },
+  shielder: {
+    stats: { hp: 40, speed: 45, damage: 10, range: 20, radius: 11, fireCooldown: 1.0, projectileSpeed: 300, projectileRadius: 4, turnSpeed: 2.0 },
+    attack: 'projectile',
+    movement: 'chase',
+    deathEffect: { kind: 'none' },
+    frontalShield: true,
+    scoring: { distIdeal: [0, 30], distPenaltyScale: 0.3, los: 5, elevation: 0, cover: 5, flank: 5 },
+    look: { body: 'shield', barrel: 'none' },
+  },
+  bomber: {
+    stats: { hp: 25, speed: 50, damage: 0, range: 0, radius: 9, fireCooldown: 99, projectileSpeed: 0, projectileRadius: 0, turnSpeed: 3.0 },
+    attack: 'none',
+    movement: 'chase',
+    deathEffect: { kind: 'explode', radius: 80, damage: 40 },
+    scoring: { distIdeal: [0, 20], distPenaltyScale: 0.3, los: 5, elevation: 0, cover: 0, flank: 0 },
+    look: { body: 'pulse', barrel: 'none' },
+  },
+  grenadier: {
+    stats: { hp: 50, speed: 80, damage: 25, range: 220, radius: 10, fireCooldown: 3.0, projectileSpeed: 180, projectileRadius: 5, turnSpeed: 2.0 },
+    attack: 'lob',
+    movement: 'planned',
+    deathEffect: { kind: 'none' },
+    blastRadius: 55,
+    indirect: true,
+    recruitable: true,
+    scoring: { distIdeal: [140, 220], distPenaltyScale: 0.15, los: 0, elevation: 10, cover: 25, flank: 5 },
+    look: { body: 'hex', barrel: 'stubby' },
+  },
+  medic: {
+    stats: { hp: 45, speed: 90, damage: 0, range: 0, radius: 9, fireCooldown: 1.0, projectileSpeed: 0, projectileRadius: 0, turnSpeed: 3.0 },
+    attack: 'heal',
+    movement: 'planned',
+    deathEffect: { kind: 'none' },
+    heal: { radius: 90, perSecond: 8 },
+    recruitable: true,
+    scoring: { distIdeal: [160, 260], distPenaltyScale: 0.2, los: 0, elevation: 5, cover: 20, flank: 0, support: 40 },
+    look: { body: 'cross', barrel: 'none' },
+  },
+} satisfies Record<string, UnitDef>;
+
+export function unitDef(type: UnitType): UnitDef {
+  return UNIT_DEFS[type];
+}
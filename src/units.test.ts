@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { createUnit, createArmy, moveUnit, findTarget, applyDamage, tryFireProjectile, updateProjectiles, segmentHitsRect, detourWaypoints, hasLineOfSight, isFlanked, bladeAoeAttack, bomberExplode } from './units';
-import { MAP_WIDTH, MAP_HEIGHT } from './constants';
-
+import { createUnit, createArmy, moveUnit, advanceWaypoint, findTarget, applyDamage, tryFireProjectile, updateProjectiles, segmentHitsRect, detourWaypoints, detourPath, hasLineOfSight, isFlanked, isProtectedByCover, bladeAoeAttack, explodeOnDeath, findHealTarget, tryHeal, shellBlast } from './units';
+import { MAP_WIDTH, MAP_HEIGHT, MUD_SPEED_MULTIPLIER } from './constants';
+import { TerrainZone } from './types';
 
 describe('createUnit', () => {
   it('creates a soldier with correct stats', () => {
@@ -68,6 +68,43 @@ describe('moveUnit', () => {
     moveUnit(unit, 1, []);
     expect(unit.pos).toEqual({ x: 50, y: 50 });
   });
+
+  it('wades slowly through mud', () => {
+    const mud: TerrainZone = { x: 0, y: 0, w: 200, h: 200, kind: 'mud' };
+    const dry = createUnit('s1', 'soldier', 'blue', { x: 100, y: 100 });
+    const stuck = createUnit('s2', 'soldier', 'blue', { x: 100, y: 100 });
+    dry.moveTarget = { x: 400, y: 100 };
+    stuck.moveTarget = { x: 400, y: 100 };
+    moveUnit(dry, 0.1, []);
+    moveUnit(stuck, 0.1, [], [], Math.random, undefined, [mud]);
+    expect(stuck.pos.x - 100).toBeCloseTo((dry.pos.x - 100) * MUD_SPEED_MULTIPLIER, 1);
+  });
+});
+
+describe('advanceWaypoint', () => {
+  it('holds at a timed node for its wait before moving on', () => {
+    const unit = createUnit('u1', 'soldier', 'blue', { x: 100, y: 100 });
+    unit.moveTarget = { x: 100, y: 100, wait: 1 };
+    unit.waypoints = [{ x: 200, y: 100 }];
+
+    advanceWaypoint(unit, 0.5);
+    expect(unit.moveTarget).toEqual({ x: 100, y: 100, wait: 1 });
+
+    advanceWaypoint(unit, 0.6);
+    expect(unit.moveTarget).toEqual({ x: 200, y: 100 });
+    expect(unit.holdTime).toBeUndefined();
+  });
+
+  it('parks on a go marker until released', () => {
+    const unit = createUnit('u1', 'soldier', 'blue', { x: 100, y: 100 });
+    unit.moveTarget = { x: 100, y: 100, sync: true };
+    unit.waypoints = [{ x: 200, y: 100 }];
+
+    advanceWaypoint(unit, 5);
+
+    expect(unit.awaitingGo).toBe(true);
+    expect(unit.waypoints).toHaveLength(1);
+  });
 });
 
 describe('findTarget', () => {
@@ -81,6 +118,17 @@ describe('findTarget', () => {
     expect(target).toBe(enemy1);
   });
 
+  it('skips enemies hidden in brush unless they are close', () => {
+    const attacker = createUnit('s1', 'soldier', 'blue', { x: 100, y: 100 });
+    const hidden = createUnit('e1', 'soldier', 'red', { x: 250, y: 100 });
+    const exposed = createUnit('e2', 'soldier', 'red', { x: 400, y: 100 });
+    const brush: TerrainZone = { x: 220, y: 60, w: 80, h: 80, kind: 'brush' };
+
+    expect(findTarget(attacker, [attacker, hidden, exposed], 'e1', [], undefined, [brush])).toBe(exposed);
+    attacker.pos = { x: 200, y: 100 };
+    expect(findTarget(attacker, [attacker, hidden, exposed], null, [], undefined, [brush])).toBe(hidden);
+  });
+
   it('falls back to nearest enemy if preferred target is dead', () => {
     const attacker = createUnit('s1', 'soldier', 'blue', { x: 100, y: 100 });
     const enemy1 = createUnit('e1', 'soldier', 'red', { x: 200, y: 100 });
@@ -204,6 +252,39 @@ describe('detourWaypoints', () => {
   });
 });
 
+describe('detourPath', () => {
+  const rect = { x: 100, y: 100, w: 50, h: 50 };
+  const clearOf = (path: { x: number; y: number }[], start: { x: number; y: number }) =>
+    path.every((wp, i) => !segmentHitsRect(i === 0 ? start : path[i - 1], wp, rect, 5));
+
+  it('leaves a clear path alone', () => {
+    const path = [{ x: 50, y: 50 }, { x: 200, y: 50 }];
+    expect(detourPath({ x: 0, y: 50 }, path, [rect], 5)).toEqual(path);
+  });
+
+  it('drops nodes inside a block and routes every leg around it', () => {
+    const start = { x: 125, y: 20 };
+    const path = [{ x: 125, y: 80 }, { x: 125, y: 125 }, { x: 125, y: 200 }];
+
+    const result = detourPath(start, path, [rect], 5);
+
+    expect(result).not.toContainEqual({ x: 125, y: 125 });
+    expect(result[result.length - 1]).toEqual({ x: 125, y: 200 });
+    expect(clearOf(result, start)).toBe(true);
+  });
+
+  it('nudges a marked or final node out instead of dropping it', () => {
+    const start = { x: 125, y: 20 };
+    const path = [{ x: 125, y: 105, wait: 2 }, { x: 125, y: 140 }];
+
+    const result = detourPath(start, path, [rect], 5);
+
+    const held = result.find(wp => wp.wait === 2);
+    expect(held).toEqual({ x: 125, y: 94, wait: 2 });
+    expect(result[result.length - 1]).toEqual({ x: 125, y: 156 });
+  });
+});
+
 describe('tryFireProjectile', () => {
   it('fires a projectile when cooldown is ready', () => {
     const attacker = createUnit('s1', 'soldier', 'blue', { x: 100, y: 100 });
@@ -317,7 +398,65 @@ describe('isFlanked', () => {
   });
 });
 
+describe('isProtectedByCover', () => {
+  it('returns true when unit is near cover and shot passes through it', () => {
+    // Cover block at x=150, unit at x=170 (within 20px), shot from left
+    const cover = { x: 145, y: 90, w: 10, h: 20 };
+    const targetPos = { x: 170, y: 100 };
+    expect(isProtectedByCover(targetPos, { x: 300, y: 0 }, targetPos, [cover])).toBe(true);
+  });
+
+  it('returns false when unit is far from cover', () => {
+    const cover = { x: 100, y: 90, w: 10, h: 20 };
+    const targetPos = { x: 200, y: 100 };
+    expect(isProtectedByCover(targetPos, { x: 300, y: 0 }, targetPos, [cover])).toBe(false);
+  });
+
+  it('returns false when shot does not pass through cover', () => {
+    const cover = { x: 145, y: 200, w: 10, h: 20 };
+    const targetPos = { x: 170, y: 100 };
+    expect(isProtectedByCover(targetPos, { x: 300, y: 0 }, targetPos, [cover])).toBe(false);
+  });
+
+  it('returns false with no cover blocks', () => {
+    const targetPos = { x: 170, y: 100 };
+    expect(isProtectedByCover(targetPos, { x: 300, y: 0 }, targetPos, [])).toBe(false);
+  });
+});
+
 describe('updateProjectiles', () => {
+  const coverShot = () => ({
+    pos: { x: 100, y: 100 },
+    vel: { x: 300, y: 0 },
+    target: { x: 170, y: 100 },
+    damage: 10,
+    radius: 5,
+    team: 'blue' as const,
+    maxRange: 500,
+    distanceTraveled: 0,
+  });
+
+  it('applies 50% damage reduction when target is in cover', () => {
+    const target = createUnit('e1', 'soldier', 'red', { x: 165, y: 100 });
+    target.gunAngle = Math.PI; // head-on, no flank bonus
+    const cover = { x: 145, y: 90, w: 10, h: 20 };
+    const { hits } = updateProjectiles([coverShot()], [target], 0.2, [], undefined, [cover]);
+    expect(hits).toHaveLength(1);
+    expect(hits[0].damage).toBe(5);
+    expect(target.hp).toBe(55);
+  });
+
+  it('applies both flanking and cover modifiers', () => {
+    const target = createUnit('e1', 'soldier', 'red', { x: 165, y: 100 });
+    target.gunAngle = 0; // facing away — shot from behind is flanked
+    const cover = { x: 145, y: 90, w: 10, h: 20 };
+    const { hits } = updateProjectiles([coverShot()], [target], 0.2, [], undefined, [cover]);
+    expect(hits).toHaveLength(1);
+    // Flanked: 10 * 1.5 = 15, then cover: 15 * 0.5 = 7.5
+    expect(hits[0].damage).toBe(7.5);
+    expect(target.hp).toBe(52.5);
+  });
+
   it('moves projectiles and removes those past max range', () => {
     const proj = {
       pos: { x: 100, y: 100 },
@@ -367,8 +506,11 @@ describe('updateProjectiles', () => {
       maxRange: 500,
       distanceTraveled: 0,
     };
-    const { alive } = updateProjectiles([proj], [], 0.1, [obstacle]);
+    const { alive, wallHits } = updateProjectiles([proj], [], 0.1, [obstacle]);
     expect(alive).toHaveLength(0);
+    expect(wallHits).toHaveLength(1);
+    expect(wallHits[0].obstacle).toBe(obstacle);
+    expect(wallHits[0].damage).toBe(10);
   });
 
   it('projectile passes when no obstacle blocks it', () => {
@@ -532,14 +674,104 @@ describe('shielder', () => {
   });
 });
 
-describe('bomberExplode', () => {
+describe('grenadier shells', () => {
+  it('lobs a shell to the target point', () => {
+    const grenadier = createUnit('g', 'grenadier', 'blue', { x: 100, y: 100 });
+    const target = createUnit('e', 'soldier', 'red', { x: 250, y: 100 });
+    grenadier.fireTimer = 0;
+    grenadier.gunAngle = 0;
+
+    const [shell] = tryFireProjectile(grenadier, target, 0.016);
+    expect(shell.target).toEqual({ x: 250, y: 100 });
+    expect(shell.shell?.flightTime).toBeCloseTo(150 / grenadier.projectileSpeed);
+  });
+
+  it('flies over obstacles and bursts only on landing', () => {
+    const grenadier = createUnit('g', 'grenadier', 'blue', { x: 100, y: 100 });
+    const target = createUnit('e', 'soldier', 'red', { x: 250, y: 100 });
+    const wall = { x: 160, y: 50, w: 30, h: 100 };
+    grenadier.fireTimer = 0;
+    grenadier.gunAngle = 0;
+    let projectiles = tryFireProjectile(grenadier, target, 0.016);
+
+    let blasted = false;
+    for (let i = 0; i < 120 && projectiles.length > 0; i++) {
+      const result = updateProjectiles(projectiles, [grenadier, target], 1 / 60, [wall]);
+      projectiles = result.alive;
+      if (result.blasts.length > 0) {
+        blasted = true;
+        expect(result.hits.map(h => h.targetId)).toEqual(['e']);
+      } else {
+        expect(result.hits).toHaveLength(0);
+      }
+    }
+    expect(blasted).toBe(true);
+    expect(target.hp).toBeLessThan(target.maxHp);
+  });
+
+  it('blast hurts both teams with falloff from the centre', () => {
+    const shell = {
+      pos: { x: 300, y: 300 }, vel: { x: 0, y: 0 }, target: { x: 300, y: 300 },
+      damage: 20, radius: 5, team: 'blue' as const, maxRange: 999, distanceTraveled: 0,
+      shell: { flightTime: 1, elapsed: 1, blastRadius: 50 },
+    };
+    const centre = createUnit('a', 'soldier', 'red', { x: 300, y: 300 });
+    const edge = createUnit('b', 'soldier', 'blue', { x: 340, y: 300 });
+    const outside = createUnit('c', 'soldier', 'red', { x: 400, y: 300 });
+
+    const hits = shellBlast(shell, [centre, edge, outside]);
+    expect(hits.map(h => h.targetId)).toEqual(['a', 'b']);
+    expect(hits[0].damage).toBeCloseTo(20);
+    expect(hits[1].damage).toBeLessThan(hits[0].damage);
+    expect(outside.hp).toBe(outside.maxHp);
+  });
+});
+
+describe('findHealTarget', () => {
+  it('picks the most injured ally in range, ignoring enemies and full-health units', () => {
+    const medic = createUnit('m', 'medic', 'blue', { x: 300, y: 300 });
+    const scratched = createUnit('a', 'soldier', 'blue', { x: 340, y: 300 });
+    const badlyHurt = createUnit('b', 'soldier', 'blue', { x: 300, y: 360 });
+    const farAway = createUnit('c', 'soldier', 'blue', { x: 700, y: 300 });
+    const enemy = createUnit('e', 'soldier', 'red', { x: 260, y: 300 });
+    scratched.hp = 50;
+    badlyHurt.hp = 10;
+    farAway.hp = 1;
+    enemy.hp = 1;
+
+    expect(findHealTarget(medic, [medic, scratched, badlyHurt, farAway, enemy])?.id).toBe('b');
+    expect(findHealTarget(medic, [medic, createUnit('f', 'soldier', 'blue', { x: 320, y: 300 })])).toBeNull();
+  });
+
+  it('returns null for units that cannot heal', () => {
+    const soldier = createUnit('s', 'soldier', 'blue', { x: 300, y: 300 });
+    const hurt = createUnit('h', 'soldier', 'blue', { x: 320, y: 300 });
+    hurt.hp = 5;
+    expect(findHealTarget(soldier, [soldier, hurt])).toBeNull();
+  });
+});
+
+describe('tryHeal', () => {
+  it('pulses on cooldown and never overheals', () => {
+    const medic = createUnit('m', 'medic', 'blue', { x: 300, y: 300 });
+    const hurt = createUnit('h', 'soldier', 'blue', { x: 320, y: 300 });
+    hurt.hp = hurt.maxHp - 3;
+
+    expect(tryHeal(medic, hurt, 0.1)).toBe(3);
+    expect(hurt.hp).toBe(hurt.maxHp);
+    hurt.hp = 10;
+    expect(tryHeal(medic, hurt, 0.1)).toBe(0); // still cooling down
+  });
+});
+
+describe('explodeOnDeath', () => {
   it('damages all units within explosion radius', () => {
     const bomber = createUnit('b1', 'bomber', 'red', { x: 100, y: 100 });
     bomber.alive = false;
     bomber.hp = 0;
     const nearby = createUnit('n1', 'soldier', 'blue', { x: 150, y: 100 });
     const far = createUnit('f1', 'soldier', 'blue', { x: 500, y: 500 });
-    const hits = bomberExplode(bomber, [bomber, nearby, far]);
+    const hits = explodeOnDeath(bomber, [bomber, nearby, far]);
     expect(hits.length).toBe(1);
     expect(nearby.hp).toBeLessThan(60);
     expect(far.hp).toBe(60);
@@ -551,7 +783,7 @@ describe('bomberExplode', () => {
     bomber.hp = 0;
     const ally = createUnit('a1', 'zombie', 'red', { x: 120, y: 100 });
     const enemy = createUnit('e1', 'soldier', 'blue', { x: 130, y: 100 });
-    const hits = bomberExplode(bomber, [bomber, ally, enemy]);
+    const hits = explodeOnDeath(bomber, [bomber, ally, enemy]);
     expect(hits.length).toBe(2);
     expect(ally.hp).toBeLessThan(20);
     expect(enemy.hp).toBeLessThan(60);
@@ -564,7 +796,7 @@ describe('bomberExplode', () => {
     const bomber2 = createUnit('b2', 'bomber', 'red', { x: 150, y: 100 });
     // bomber2 has 25 HP, explosion does 40 damage — should kill it
     const target = createUnit('t1', 'soldier', 'blue', { x: 170, y: 100 });
-    const hits = bomberExplode(bomber1, [bomber1, bomber2, target]);
+    const hits = explodeOnDeath(bomber1, [bomber1, bomber2, target]);
     // bomber1 explosion hits bomber2 (dist 50) and target (dist 70, within 80+10=90)
     // bomber2 dies, chain explodes, hits target again (dist 20)
     expect(bomber2.alive).toBe(false);
@@ -576,7 +808,7 @@ describe('bomberExplode', () => {
     bomber.alive = false;
     bomber.hp = 0;
     const far = createUnit('f1', 'soldier', 'blue', { x: 300, y: 300 });
-    const hits = bomberExplode(bomber, [bomber, far]);
+    const hits = explodeOnDeath(bomber, [bomber, far]);
     expect(hits.length).toBe(0);
     expect(far.hp).toBe(60);
   });
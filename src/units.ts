@@ -1,15 +1,23 @@
-import { Unit, UnitType, Team, Vec2, Obstacle, Projectile, ElevationZone } from './types';
+import { Unit, UnitType, Team, Vec2, Waypoint, Obstacle, Projectile, ElevationZone, TerrainZone, CoverBlock } from './types';
+import { Rng } from './rng';
+import { SpatialHash } from './spatial-hash';
+import { unitDef } from './unit-defs';
+import { statusSpeedMultiplier, statusDamageMultiplier, canFire, canTurn } from './status-effects';
+import { terrainSpeedMultiplier, isConcealed } from './terrain';
 
 export interface ProjectileHit {
   pos: Vec2;
   targetId: string;
   killed: boolean;
   team: Team;
+  ownerId?: string;
   angle: number;
   damage: number;
   flanked: boolean;
+  /** Dealt by a shell's blast rather than a direct hit. */
+  blast?: boolean;
 }
-import { UNIT_STATS, ARMY_COMPOSITION, MAP_WIDTH, MAP_HEIGHT, ELEVATION_RANGE_BONUS, FLANK_ANGLE_THRESHOLD, FLANK_DAMAGE_MULTIPLIER } from './constants';
+import { ARMY_COMPOSITION, MAP_WIDTH, MAP_HEIGHT, ELEVATION_RANGE_BONUS, FLANK_ANGLE_THRESHOLD, FLANK_DAMAGE_MULTIPLIER, SHELL_EDGE_DAMAGE, COVER_PROXIMITY, COVER_DAMAGE_REDUCTION } from './constants';
 
 /** Check if line segment from a to b intersects rect expanded by padding (slab method). */
 export function segmentHitsRect(a: Vec2, b: Vec2, rect: Obstacle, padding: number): boolean {
@@ -121,10 +129,14 @@ export function detourWaypoints(a: Vec2, b: Vec2, obstacles: Obstacle[], padding
     validCorners.push(...fallback);
   }
 
+  // Prefer corners reachable in a straight line, so the leg to them clears this obstacle
+  const reachable = validCorners.filter(c => Math.hypot(c.x - a.x, c.y - a.y) >= 2 && !segmentHitsRect(a, c, obs, padding));
+  const pool = reachable.length > 0 ? reachable : validCorners;
+
   // Pick corner that minimizes total detour distance
-  let bestCorner = validCorners[0];
+  let bestCorner = pool[0];
   let bestDist = Infinity;
-  for (const c of validCorners) {
+  for (const c of pool) {
     const dist = Math.hypot(c.x - a.x, c.y - a.y) + Math.hypot(b.x - c.x, b.y - c.y);
     if (dist < bestDist) {
       bestDist = dist;
@@ -140,8 +152,32 @@ export function detourWaypoints(a: Vec2, b: Vec2, obstacles: Obstacle[], padding
   return [...before, bestCorner, ...after];
 }
 
+/**
+ * Make a drawn path walkable from `start`: plain nodes inside a block are dropped,
+ * wait/go markers and the final node are nudged out, and blocked legs get detour corners.
+ */
+export function detourPath(start: Vec2, path: Waypoint[], obstacles: Obstacle[], padding: number): Waypoint[] {
+  const nodes: Waypoint[] = [];
+  path.forEach((wp, i) => {
+    if (!pointHitsObstacle(wp, obstacles, padding)) {
+      nodes.push(wp);
+    } else if (wp.wait || wp.sync || i === path.length - 1) {
+      nodes.push({ ...wp, ...nudgeOutOfBlocks(wp, obstacles, padding + 1) });
+    }
+  });
+
+  const result: Waypoint[] = [];
+  let prev = start;
+  for (const wp of nodes) {
+    result.push(...detourWaypoints(prev, wp, obstacles, padding), wp);
+    prev = wp;
+  }
+  return result;
+}
+
 export function createUnit(id: string, type: UnitType, team: Team, pos: Vec2): Unit {
-  const stats = UNIT_STATS[type];
+  const def = unitDef(type);
+  const stats = def.stats;
   return {
     id,
     type,
@@ -164,7 +200,8 @@ export function createUnit(id: string, type: UnitType, team: Team, pos: Vec2): U
     vel: { x: 0, y: 0 },
     gunAngle: team === 'blue' ? -Math.PI / 2 : Math.PI / 2,
     turnSpeed: stats.turnSpeed,
-    damageReduction: type === 'blade' ? 0.3 : undefined,
+    piercing: def.piercing,
+    damageReduction: def.damageReduction,
   };
 }
 
@@ -210,17 +247,17 @@ export function flankScore(attackerPos: Vec2, targetPos: Vec2, targetGunAngle: n
   return Math.abs(diff) / Math.PI;
 }
 
-export function createArmy(team: Team): Unit[] {
+export function createArmy(team: Team, composition: { type: UnitType; count: number }[] = ARMY_COMPOSITION): Unit[] {
   const units: Unit[] = [];
   const isBlue = team === 'blue';
   const baseY = isBlue ? MAP_HEIGHT * 0.92 : MAP_HEIGHT * 0.08;
-  const totalUnits = ARMY_COMPOSITION.reduce((sum, c) => sum + c.count, 0);
+  const totalUnits = composition.reduce((sum, c) => sum + c.count, 0);
   const spacing = 60;
   const groupWidth = spacing * (totalUnits - 1);
   const startX = (MAP_WIDTH - groupWidth) / 2;
   let index = 0;
 
-  for (const { type, count } of ARMY_COMPOSITION) {
+  for (const { type, count } of composition) {
     for (let i = 0; i < count; i++) {
       const x = startX + spacing * index;
       const pos = { x, y: baseY };
@@ -292,6 +329,7 @@ export function createMissionArmy(team: Team, composition: { type: UnitType; cou
 
 /** Smoothly rotate unit.gunAngle toward desiredAngle via shortest arc, capped at ~2 rad/s. */
 export function updateGunAngle(unit: Unit, desiredAngle: number, dt: number): void {
+  if (!canTurn(unit)) return;
   let diff = desiredAngle - unit.gunAngle;
   // Normalize to [-PI, PI] for shortest arc
   diff = ((diff + Math.PI) % (2 * Math.PI)) - Math.PI;
@@ -315,8 +353,10 @@ export function advanceWaypoint(unit: Unit, dt: number = 0): void {
     (Math.abs(unit.pos.x - unit.moveTarget.x) < 2 &&
      Math.abs(unit.pos.y - unit.moveTarget.y) < 2);
 
-  // Track stuck time — increment when barely moving toward target
-  if (unit.moveTarget && dt > 0) {
+  // Track stuck time — increment when barely moving toward target.
+  // A stunned unit isn't stuck, so it keeps its path.
+  const speed = unit.speed * statusSpeedMultiplier(unit);
+  if (unit.moveTarget && dt > 0 && speed > 0) {
     const toTargetX = unit.moveTarget.x - unit.pos.x;
     const toTargetY = unit.moveTarget.y - unit.pos.y;
     const toTargetDist = Math.sqrt(toTargetX * toTargetX + toTargetY * toTargetY);
@@ -324,7 +364,7 @@ export function advanceWaypoint(unit: Unit, dt: number = 0): void {
     const progress = toTargetDist > 1
       ? (unit.vel.x * toTargetX + unit.vel.y * toTargetY) / toTargetDist
       : 0;
-    if (progress < unit.speed * 0.1) {
+    if (progress < speed * 0.1) {
       unit.stuckTime = (unit.stuckTime ?? 0) + dt;
     } else {
       unit.stuckTime = 0;
@@ -335,6 +375,19 @@ export function advanceWaypoint(unit: Unit, dt: number = 0): void {
 
   if (atTarget || stuck) {
     unit.stuckTime = 0;
+
+    // Hold at a timed node, then at a go marker until the team releases it
+    const node = unit.moveTarget;
+    if (node?.wait) {
+      unit.holdTime = (unit.holdTime ?? 0) + dt;
+      if (unit.holdTime < node.wait) return;
+    }
+    if (node?.sync) {
+      unit.awaitingGo = true;
+      return;
+    }
+
+    unit.holdTime = undefined;
     unit.moveTarget = unit.waypoints.length > 0
       ? unit.waypoints.shift()!
       : null;
@@ -393,7 +446,7 @@ function pushOutOfObstacles(pos: Vec2, radius: number, obstacles: Obstacle[]): v
   }
 }
 
-export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits: Unit[] = []): void {
+export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits: Unit[] = [], rng: Rng = Math.random, grid?: SpatialHash, terrainZones: TerrainZone[] = []): void {
   // Apply knockback velocity (decays via friction)
   if (unit.knockbackVel) {
     const kbSpeed = Math.sqrt(unit.knockbackVel.x ** 2 + unit.knockbackVel.y ** 2);
@@ -412,7 +465,9 @@ export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits
     }
   }
 
-  if (!unit.moveTarget || !unit.alive) {
+  // Stunned (or fully slowed) units stay put but keep their path
+  const speedMul = statusSpeedMultiplier(unit);
+  if (!unit.moveTarget || !unit.alive || speedMul <= 0) {
     unit.vel = { x: 0, y: 0 };
     return;
   }
@@ -428,15 +483,16 @@ export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits
     return;
   }
 
-  const step = unit.speed * dt;
+  const step = unit.speed * speedMul * terrainSpeedMultiplier(unit.pos, terrainZones) * dt;
   let dirX = dx / dist;
   let dirY = dy / dist;
 
   // Steer around nearby units
   const lookAhead = unit.radius * 5;
+  const nearby = grid ? grid.query(unit.pos, lookAhead + step) : allUnits;
   let steerX = 0;
   let steerY = 0;
-  for (const other of allUnits) {
+  for (const other of nearby) {
     if (other === unit || !other.alive) continue;
     const ox = other.pos.x - unit.pos.x;
     const oy = other.pos.y - unit.pos.y;
@@ -473,9 +529,9 @@ export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits
     if (len > 0.01) { dirX /= len; dirY /= len; }
   }
 
-  // Zombie shamble: random perpendicular wobble
-  if (unit.type === 'zombie') {
-    const wobble = (Math.random() - 0.5) * 1.4;
+  // Shamble: random perpendicular wobble
+  if (unitDef(unit.type).shamble) {
+    const wobble = (rng() - 0.5) * 1.4;
     dirX += -dirY * wobble;
     dirY += dirX * wobble;
     const len = Math.sqrt(dirX * dirX + dirY * dirY);
@@ -516,7 +572,7 @@ export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits
   }
 
   // Prevent walking into other units (prevents path-crossing jams)
-  const hitsUnit = (px: number, py: number) => allUnits.some(other => {
+  const hitsUnit = (px: number, py: number) => nearby.some(other => {
     if (other === unit || !other.alive) return false;
     const cdx = px - other.pos.x;
     const cdy = py - other.pos.y;
@@ -552,52 +608,57 @@ export function moveUnit(unit: Unit, dt: number, obstacles: Obstacle[], allUnits
 }
 
 /** Push overlapping units apart so they don't stack on the same spot. */
-export function separateUnits(units: Unit[], obstacles: Obstacle[] = []): void {
+export function separateUnits(units: Unit[], obstacles: Obstacle[] = [], grid?: SpatialHash): void {
   const alive = units.filter(u => u.alive);
   const ITERATIONS = 5;
 
-  for (let iter = 0; iter < ITERATIONS; iter++) {
-    for (let i = 0; i < alive.length; i++) {
-      for (let j = i + 1; j < alive.length; j++) {
-        const a = alive[i];
-        const b = alive[j];
-        const dx = b.pos.x - a.pos.x;
-        const dy = b.pos.y - a.pos.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        const minDist = a.radius + b.radius + 1;
-
-        if (dist < minDist && dist > 0.01) {
-          const overlap = (minDist - dist) / 2;
-          const nx = dx / dist;
-          const ny = dy / dist;
-          a.pos.x -= nx * overlap;
-          a.pos.y -= ny * overlap;
-          b.pos.x += nx * overlap;
-          b.pos.y += ny * overlap;
-
-          // Bounce — reflect converging velocity outward (soft elastic collision)
-          // Stronger bounce for same-team to prevent friendly stacking
-          const relVelDot = (a.vel.x - b.vel.x) * nx + (a.vel.y - b.vel.y) * ny;
-          if (relVelDot < 0) {
-            const bounce = a.team === b.team ? 0.5 : 0.3;
-            a.vel.x -= nx * relVelDot * (0.5 + bounce);
-            a.vel.y -= ny * relVelDot * (0.5 + bounce);
-            b.vel.x += nx * relVelDot * (0.5 + bounce);
-            b.vel.y += ny * relVelDot * (0.5 + bounce);
-          }
+  const resolve = (a: Unit, b: Unit) => {
+    const dx = b.pos.x - a.pos.x;
+    const dy = b.pos.y - a.pos.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    const minDist = a.radius + b.radius + 1;
+
+    if (dist < minDist && dist > 0.01) {
+      const overlap = (minDist - dist) / 2;
+      const nx = dx / dist;
+      const ny = dy / dist;
+      a.pos.x -= nx * overlap;
+      a.pos.y -= ny * overlap;
+      b.pos.x += nx * overlap;
+      b.pos.y += ny * overlap;
+
+      // Bounce — reflect converging velocity outward (soft elastic collision)
+      // Stronger bounce for same-team to prevent friendly stacking
+      const relVelDot = (a.vel.x - b.vel.x) * nx + (a.vel.y - b.vel.y) * ny;
+      if (relVelDot < 0) {
+        const bounce = a.team === b.team ? 0.5 : 0.3;
+        a.vel.x -= nx * relVelDot * (0.5 + bounce);
+        a.vel.y -= ny * relVelDot * (0.5 + bounce);
+        b.vel.x += nx * relVelDot * (0.5 + bounce);
+        b.vel.y += ny * relVelDot * (0.5 + bounce);
+      }
 
-          // Keep within bounds
-          a.pos.x = clamp(a.pos.x, a.radius, MAP_WIDTH - a.radius);
-          a.pos.y = clamp(a.pos.y, a.radius, MAP_HEIGHT - a.radius);
-          b.pos.x = clamp(b.pos.x, b.radius, MAP_WIDTH - b.radius);
-          b.pos.y = clamp(b.pos.y, b.radius, MAP_HEIGHT - b.radius);
-        } else if (dist <= 0.01) {
-          // Exactly overlapping — nudge apart diagonally
-          a.pos.x -= 1;
-          a.pos.y -= 1;
-          b.pos.x += 1;
-          b.pos.y += 1;
-        }
+      // Keep within bounds
+      a.pos.x = clamp(a.pos.x, a.radius, MAP_WIDTH - a.radius);
+      a.pos.y = clamp(a.pos.y, a.radius, MAP_HEIGHT - a.radius);
+      b.pos.x = clamp(b.pos.x, b.radius, MAP_WIDTH - b.radius);
+      b.pos.y = clamp(b.pos.y, b.radius, MAP_HEIGHT - b.radius);
+    } else if (dist <= 0.01) {
+      // Exactly overlapping — nudge apart diagonally
+      a.pos.x -= 1;
+      a.pos.y -= 1;
+      b.pos.x += 1;
+      b.pos.y += 1;
+    }
+  };
+
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    if (grid) {
+      grid.rebuild(alive);
+      grid.forEachPair(resolve);
+    } else {
+      for (let i = 0; i < alive.length; i++) {
+        for (let j = i + 1; j < alive.length; j++) resolve(alive[i], alive[j]);
       }
     }
   }
@@ -615,13 +676,15 @@ export function hasLineOfSight(a: Vec2, b: Vec2, obstacles: Obstacle[]): boolean
   return !obstacles.some(o => segmentHitsRect(a, b, o, 0));
 }
 
-export function findTarget(attacker: Unit, allUnits: Unit[], preferredId: string | null, obstacles: Obstacle[] = []): Unit | null {
-  const enemies = allUnits.filter(u => u.alive && u.team !== attacker.team);
-  if (enemies.length === 0) return null;
+export function findTarget(attacker: Unit, allUnits: Unit[], preferredId: string | null, obstacles: Obstacle[] = [], grid?: SpatialHash, terrainZones: TerrainZone[] = []): Unit | null {
+  // Indirect fire sees every enemy as visible
+  const visible = (pos: Vec2) => unitDef(attacker.type).indirect || hasLineOfSight(attacker.pos, pos, obstacles);
+  // Enemies hidden in brush can't be picked at all, not even as a fallback
+  const hidden = (pos: Vec2) => isConcealed(pos, attacker.pos, terrainZones);
 
   if (preferredId) {
-    const preferred = enemies.find(u => u.id === preferredId);
-    if (preferred && hasLineOfSight(attacker.pos, preferred.pos, obstacles)) return preferred;
+    const preferred = allUnits.find(u => u.id === preferredId && u.alive && u.team !== attacker.team);
+    if (preferred && visible(preferred.pos) && !hidden(preferred.pos)) return preferred;
   }
 
   // Split into visible and blocked enemies
@@ -630,21 +693,50 @@ export function findTarget(attacker: Unit, allUnits: Unit[], preferredId: string
   let nearestAny: Unit | null = null;
   let nearestAnyDist = Infinity;
 
-  for (const enemy of enemies) {
+  const consider = (enemy: Unit) => {
+    if (!enemy.alive || enemy.team === attacker.team || hidden(enemy.pos)) return;
     const d = distance(attacker.pos, enemy.pos);
     if (d < nearestAnyDist) {
       nearestAny = enemy;
       nearestAnyDist = d;
     }
-    if (hasLineOfSight(attacker.pos, enemy.pos, obstacles) && d < nearestVisibleDist) {
+    if (d < nearestVisibleDist && visible(enemy.pos)) {
       nearestVisible = enemy;
       nearestVisibleDist = d;
     }
+  };
+
+  if (grid) {
+    // Stop once no unvisited cell can hold anything closer than the best visible enemy
+    const enemyTeam: Team = attacker.team === 'blue' ? 'red' : 'blue';
+    grid.searchRings(attacker.pos, enemyTeam, consider, ring => nearestVisibleDist > ring * grid.cellSize);
+  } else {
+    for (const u of allUnits) consider(u);
   }
 
   return nearestVisible ?? nearestAny;
 }
 
+/** Most injured visible ally (lowest HP fraction) within the healer's heal radius. */
+export function findHealTarget(healer: Unit, allUnits: Unit[], obstacles: Obstacle[] = [], grid?: SpatialHash): Unit | null {
+  const heal = unitDef(healer.type).heal;
+  if (!heal) return null;
+
+  let best: Unit | null = null;
+  let bestRatio = 1;
+  const nearby = grid ? grid.query(healer.pos, heal.radius) : allUnits;
+  for (const ally of nearby) {
+    if (!ally.alive || ally.team !== healer.team || ally.id === healer.id) continue;
+    const ratio = ally.hp / ally.maxHp;
+    if (ratio >= bestRatio) continue;
+    if (distance(healer.pos, ally.pos) > heal.radius + ally.radius) continue;
+    if (!hasLineOfSight(healer.pos, ally.pos, obstacles)) continue;
+    best = ally;
+    bestRatio = ratio;
+  }
+  return best;
+}
+
 /** Count how many elevation zones overlap a position (0 = flat ground). */
 export function getElevationLevel(pos: Vec2, zones: ElevationZone[]): number {
   let level = 0;
@@ -663,8 +755,8 @@ export function isOnElevation(pos: Vec2, zones: ElevationZone[]): boolean {
 
 export function isInRange(attacker: Unit, target: Unit, elevationZones: ElevationZone[] = []): boolean {
   const level = getElevationLevel(attacker.pos, elevationZones);
-  // Blade gets minimal benefit from elevation (melee unit)
-  const bonus = attacker.type === 'blade' ? 0 : ELEVATION_RANGE_BONUS;
+  // Melee gets no benefit from elevation
+  const bonus = unitDef(attacker.type).attack === 'melee-aoe' ? 0 : ELEVATION_RANGE_BONUS;
   const range = attacker.range * (1 + bonus * level);
   return distance(attacker.pos, target.pos) <= range + attacker.radius + target.radius;
 }
@@ -681,15 +773,60 @@ export function isFlanked(projectileVelAngle: number, targetGunAngle: number): b
   return Math.abs(diff) > FLANK_ANGLE_THRESHOLD;
 }
 
+/** Check if a unit is protected by cover (near a cover block that the shot passes through). */
+export function isProtectedByCover(
+  hitPos: Vec2,
+  projVel: Vec2,
+  targetPos: Vec2,
+  coverBlocks: CoverBlock[],
+): boolean {
+  const speed = Math.sqrt(projVel.x * projVel.x + projVel.y * projVel.y);
+  if (speed < 1) return false;
+  // Trace backward from hit along projectile path
+  const traceBack = {
+    x: hitPos.x - (projVel.x / speed) * 200,
+    y: hitPos.y - (projVel.y / speed) * 200,
+  };
+  for (const cover of coverBlocks) {
+    // Is the target within proximity of this cover?
+    const cx = Math.max(cover.x, Math.min(cover.x + cover.w, targetPos.x));
+    const cy = Math.max(cover.y, Math.min(cover.y + cover.h, targetPos.y));
+    const dx = targetPos.x - cx;
+    const dy = targetPos.y - cy;
+    if (dx * dx + dy * dy > COVER_PROXIMITY * COVER_PROXIMITY) continue;
+    // Did the projectile path cross this cover?
+    if (segmentHitsRect(traceBack, hitPos, cover, 0)) return true;
+  }
+  return false;
+}
 
 export function applyDamage(unit: Unit, amount: number): void {
-  const reduced = unit.damageReduction ? amount * (1 - unit.damageReduction) : amount;
+  const afterStatus = amount * statusDamageMultiplier(unit);
+  const reduced = unit.damageReduction ? afterStatus * (1 - unit.damageReduction) : afterStatus;
   unit.hp = Math.max(0, unit.hp - reduced);
   if (unit.hp === 0) {
     unit.alive = false;
   }
 }
 
+/** Restore HP up to max. Returns how much was actually healed. */
+export function healUnit(unit: Unit, amount: number): number {
+  if (!unit.alive) return 0;
+  const healed = Math.min(amount, unit.maxHp - unit.hp);
+  unit.hp += healed;
+  return healed;
+}
+
+/** Pulse a heal on `target` when the healer's cooldown is up. Returns HP restored (0 if no pulse). */
+export function tryHeal(healer: Unit, target: Unit, dt: number): number {
+  const heal = unitDef(healer.type).heal;
+  if (!heal || !canFire(healer)) return 0;
+  healer.fireTimer -= dt;
+  if (healer.fireTimer > 0) return 0;
+  healer.fireTimer = healer.fireCooldown;
+  return healUnit(target, heal.perSecond * healer.fireCooldown);
+}
+
 export interface AoeHit {
   pos: Vec2;
   targetId: string;
@@ -700,7 +837,7 @@ export interface AoeHit {
 
 /** Blade AoE: damage and knock back all enemies within range. */
 export function bladeAoeAttack(unit: Unit, units: Unit[], dt: number): AoeHit[] {
-  if (unit.type !== 'blade' || !unit.alive) return [];
+  if (unitDef(unit.type).attack !== 'melee-aoe' || !unit.alive || !canFire(unit)) return [];
 
   unit.fireTimer -= dt;
   if (unit.fireTimer > 0) return [];
@@ -748,25 +885,25 @@ export interface ExplosionHit {
   damage: number;
 }
 
-/** Bomber explodes on death, damaging ALL units (both teams) within radius. */
-export function bomberExplode(bomber: Unit, allUnits: Unit[]): ExplosionHit[] {
-  const EXPLOSION_RADIUS = 80;
-  const EXPLOSION_DAMAGE = 40;
+/** Units with an explode death effect (bombers) damage ALL units (both teams) within radius. */
+export function explodeOnDeath(unit: Unit, allUnits: Unit[]): ExplosionHit[] {
+  const effect = unitDef(unit.type).deathEffect;
+  if (effect.kind !== 'explode') return [];
   const hits: ExplosionHit[] = [];
 
   for (const u of allUnits) {
-    if (!u.alive || u.id === bomber.id) continue;
-    const dx = u.pos.x - bomber.pos.x;
-    const dy = u.pos.y - bomber.pos.y;
+    if (!u.alive || u.id === unit.id) continue;
+    const dx = u.pos.x - unit.pos.x;
+    const dy = u.pos.y - unit.pos.y;
     const dist = Math.sqrt(dx * dx + dy * dy);
-    if (dist <= EXPLOSION_RADIUS + u.radius) {
+    if (dist <= effect.radius + u.radius) {
       const before = u.hp;
-      applyDamage(u, EXPLOSION_DAMAGE);
+      applyDamage(u, effect.damage);
       hits.push({
         pos: { x: u.pos.x, y: u.pos.y },
         targetId: u.id,
         killed: before > 0 && !u.alive,
-        damage: EXPLOSION_DAMAGE,
+        damage: effect.damage,
       });
     }
   }
@@ -775,10 +912,7 @@ export function bomberExplode(bomber: Unit, allUnits: Unit[]): ExplosionHit[] {
   for (const hit of [...hits]) {
     if (hit.killed) {
       const deadUnit = allUnits.find(u => u.id === hit.targetId);
-      if (deadUnit && deadUnit.type === 'bomber') {
-        const chainHits = bomberExplode(deadUnit, allUnits);
-        hits.push(...chainHits);
-      }
+      if (deadUnit) hits.push(...explodeOnDeath(deadUnit, allUnits));
     }
   }
 
@@ -786,6 +920,7 @@ export function bomberExplode(bomber: Unit, allUnits: Unit[]): ExplosionHit[] {
 }
 
 export function tryFireProjectile(unit: Unit, target: Unit, dt: number, elevationZones: ElevationZone[] = []): Projectile[] {
+  if (!canFire(unit)) return [];
   unit.fireTimer -= dt;
   if (unit.fireTimer > 0) return [];
 
@@ -819,8 +954,27 @@ export function tryFireProjectile(unit: Unit, target: Unit, dt: number, elevatio
   const maxRange = unit.range * (1 + ELEVATION_RANGE_BONUS * getElevationLevel(unit.pos, elevationZones)) + unit.radius + 40;
   const baseAngle = Math.atan2(pdy, pdx);
 
-  // Blade uses AoE attack, not projectiles
-  if (unit.type === 'blade' || unit.type === 'bomber') return [];
+  const def = unitDef(unit.type);
+  if (def.attack === 'lob') {
+    // Shells land on the predicted point, cut short at max range
+    const flight = Math.min(pdist, maxRange);
+    const target = { x: unit.pos.x + (pdx / pdist) * flight, y: unit.pos.y + (pdy / pdist) * flight };
+    return [{
+      pos: { x: unit.pos.x, y: unit.pos.y },
+      vel: { x: (pdx / pdist) * unit.projectileSpeed, y: (pdy / pdist) * unit.projectileSpeed },
+      target,
+      damage: unit.damage,
+      radius: unit.projectileRadius,
+      team: unit.team,
+      ownerId: unit.id,
+      maxRange,
+      distanceTraveled: 0,
+      shell: { flightTime: flight / unit.projectileSpeed, elapsed: 0, blastRadius: def.blastRadius ?? 0 },
+    }];
+  }
+
+  // Melee and non-attacking units never fire
+  if (def.attack !== 'projectile') return [];
 
   return [{
     pos: { x: unit.pos.x, y: unit.pos.y },
@@ -829,9 +983,10 @@ export function tryFireProjectile(unit: Unit, target: Unit, dt: number, elevatio
     damage: unit.damage,
     radius: unit.projectileRadius,
     team: unit.team,
+    ownerId: unit.id,
     maxRange,
     distanceTraveled: 0,
-    piercing: unit.piercing ?? unit.type === 'sniper',
+    piercing: unit.piercing ?? false,
   }];
 }
 
@@ -840,11 +995,31 @@ export function updateProjectiles(
   units: Unit[],
   dt: number,
   obstacles: Obstacle[] = [],
-): { alive: Projectile[]; hits: ProjectileHit[] } {
+  grid?: SpatialHash,
+  coverBlocks: CoverBlock[] = [],
+): { alive: Projectile[]; hits: ProjectileHit[]; blasts: ShellBlast[]; wallHits: WallHit[] } {
   const alive: Projectile[] = [];
   const hits: ProjectileHit[] = [];
+  const blasts: ShellBlast[] = [];
+  const wallHits: WallHit[] = [];
 
   for (const p of projectiles) {
+    // Shells fly over everything and only touch down at their target
+    if (p.shell) {
+      p.shell.elapsed += dt;
+      if (p.shell.elapsed < p.shell.flightTime) {
+        p.pos.x += p.vel.x * dt;
+        p.pos.y += p.vel.y * dt;
+        p.distanceTraveled += Math.sqrt(p.vel.x * p.vel.x + p.vel.y * p.vel.y) * dt;
+        alive.push(p);
+        continue;
+      }
+      p.pos = { x: p.target.x, y: p.target.y };
+      blasts.push({ pos: { ...p.pos }, radius: p.shell.blastRadius, damage: p.damage, team: p.team, ownerId: p.ownerId });
+      hits.push(...shellBlast(p, units, grid));
+      continue;
+    }
+
     // Move projectile
     const oldPos = { x: p.pos.x, y: p.pos.y };
     const moveX = p.vel.x * dt;
@@ -862,12 +1037,16 @@ export function updateProjectiles(
     if (p.pos.x < 0 || p.pos.x > MAP_WIDTH || p.pos.y < 0 || p.pos.y > MAP_HEIGHT) continue;
     if (p.distanceTraveled > p.maxRange) continue;
 
-    // Check if projectile hit an obstacle
-    if (obstacles.some(o => segmentHitsRect(oldPos, p.pos, o, p.radius))) continue;
+    // Check if projectile hit an obstacle — it stops there and chips the block
+    const wall = obstacles.find(o => segmentHitsRect(oldPos, p.pos, o, p.radius));
+    if (wall) {
+      wallHits.push({ obstacle: wall, damage: p.damage, pos: { x: p.pos.x, y: p.pos.y } });
+      continue;
+    }
 
     // Check hit against enemy units
     let consumed = false;
-    for (const unit of units) {
+    for (const unit of grid ? grid.query(p.pos, p.radius) : units) {
       if (!unit.alive || unit.team === p.team) continue;
       // Piercing projectiles skip already-hit units
       if (p.piercing && p.hitIds?.has(unit.id)) continue;
@@ -878,7 +1057,7 @@ export function updateProjectiles(
         const projAngle = Math.atan2(p.vel.y, p.vel.x);
 
         // Shield blocks frontal hits
-        if (unit.type === 'shielder') {
+        if (unitDef(unit.type).frontalShield) {
           if (!isFlanked(projAngle, unit.gunAngle)) {
             // Shield absorbs — destroy projectile
             if (!p.piercing) {
@@ -891,6 +1070,8 @@ export function updateProjectiles(
 
         const flanked = isFlanked(projAngle, unit.gunAngle);
         let actualDamage = flanked ? p.damage * FLANK_DAMAGE_MULTIPLIER : p.damage;
+        // Cover reduction
+        if (isProtectedByCover(p.pos, p.vel, unit.pos, coverBlocks)) actualDamage *= COVER_DAMAGE_REDUCTION;
         // Knockback — apply velocity impulse in projectile direction
         const knockback = p.knockback ?? p.damage * 0.4;
         const projSpeed = Math.sqrt(p.vel.x * p.vel.x + p.vel.y * p.vel.y);
@@ -909,6 +1090,7 @@ export function updateProjectiles(
           targetId: unit.id,
           killed: wasBefore > 0 && !unit.alive,
           team: p.team,
+          ownerId: p.ownerId,
           angle: projAngle,
           flanked,
           damage: actualDamage,
@@ -928,5 +1110,50 @@ export function updateProjectiles(
     if (!consumed) alive.push(p);
   }
 
-  return { alive, hits };
+  return { alive, hits, blasts, wallHits };
+}
+
+/** A projectile stopped by an obstacle. */
+export interface WallHit {
+  obstacle: Obstacle;
+  damage: number;
+  pos: Vec2;
+}
+
+/** A shell touching down. */
+export interface ShellBlast {
+  pos: Vec2;
+  radius: number;
+  damage: number;
+  team: Team;
+  ownerId?: string;
+}
+
+/** Landed shells hurt ALL units (both teams) in the blast, falling off toward the edge. */
+export function shellBlast(p: Projectile, units: Unit[], grid?: SpatialHash): ProjectileHit[] {
+  const radius = p.shell?.blastRadius ?? 0;
+  const hits: ProjectileHit[] = [];
+  for (const u of grid ? grid.query(p.pos, radius) : units) {
+    if (!u.alive) continue;
+    const dx = u.pos.x - p.pos.x;
+    const dy = u.pos.y - p.pos.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist > radius + u.radius) continue;
+    const t = Math.min(1, dist / (radius + u.radius));
+    const damage = p.damage * (1 - (1 - SHELL_EDGE_DAMAGE) * t);
+    const before = u.hp;
+    applyDamage(u, damage);
+    hits.push({
+      pos: { x: u.pos.x, y: u.pos.y },
+      targetId: u.id,
+      killed: before > 0 && !u.alive,
+      team: p.team,
+      ownerId: p.ownerId,
+      angle: Math.atan2(dy, dx),
+      damage,
+      flanked: false,
+      blast: true,
+    });
+  }
+  return hits;
 }